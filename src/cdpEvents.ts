@@ -0,0 +1,202 @@
+import { ProtocolDescriptor, getProtocolDomain } from './cdpProtocol.js';
+
+/**
+ * CDP events a client asked to watch, kept per target in a bounded queue.
+ * Sequence numbers run across all targets of a process, so one cursor can
+ * page through all of them; the oldest events are dropped when a queue is full.
+ */
+
+export const DEFAULT_EVENT_QUEUE_CAPACITY = 1000;
+export const MAX_EVENT_QUEUE_CAPACITY = 100000;
+export const DEFAULT_EVENT_POLL_LIMIT = 100;
+
+export interface CDPEventRecord {
+  seq: number;
+  time: Date;
+  targetId: string;
+  method: string;
+  params: unknown;
+  sessionId?: string; // Set for events from a session attached through the target's connection
+}
+
+export interface EventSubscription {
+  id: string;
+  targetId: string;
+  events: string[]; // "Domain.event", or "Domain.*" for all of a domain's events
+  createdAt: Date;
+}
+
+export interface EventQueue {
+  capacity: number;
+  events: CDPEventRecord[]; // Oldest first
+  dropped: number; // Events pushed out by newer ones
+  lastDroppedSeq: number;
+}
+
+export interface CDPEventLog {
+  subscriptions: Map<string, EventSubscription>;
+  queues: Map<string, EventQueue>; // By target ID
+  seq: number; // Last sequence number handed out
+  subscriptionCount: number;
+}
+
+export interface EventPollOptions {
+  afterSeq?: number;
+  limit?: number;
+  targetId?: string;
+  method?: string; // Same pattern syntax as subscriptions
+}
+
+export interface EventPollResult {
+  events: CDPEventRecord[];
+  nextSeq: number; // Pass back as afterSeq for newer events
+  hasMore: boolean;
+  gap: boolean; // Some events after afterSeq were dropped before they could be polled
+}
+
+/**
+ * Checks a pattern's syntax and returns the domain it belongs to
+ */
+export function parseEventPattern(pattern: string): { domain: string; event?: string } {
+  const match = /^([A-Za-z][A-Za-z0-9]*)\.(\*|[A-Za-z][A-Za-z0-9]*)$/.exec(pattern);
+  if (!match) {
+    throw new Error(`Invalid event "${pattern}"; expected Domain.event or Domain.*, e.g. Page.loadEventFired`);
+  }
+  return { domain: match[1], event: match[2] === '*' ? undefined : match[2] };
+}
+
+/**
+ * Throws for patterns naming events the target's protocol doesn't have
+ */
+export function checkEventPatterns(protocol: ProtocolDescriptor, patterns: string[]): void {
+  for (const pattern of patterns) {
+    const { domain: domainName, event } = parseEventPattern(pattern);
+    const domain = getProtocolDomain(protocol, domainName);
+    if (event && !(domain.events ?? []).some(e => e.name === event)) {
+      throw new Error(`Unknown CDP event "${pattern}"; ${domainName} has ${(domain.events ?? []).map(e => e.name).join(', ') || 'no events'}`);
+    }
+  }
+}
+
+/**
+ * Domains that have to be enabled before their events are sent
+ */
+export function eventDomains(patterns: string[]): string[] {
+  return Array.from(new Set(patterns.map(pattern => parseEventPattern(pattern).domain)));
+}
+
+export function eventMatches(patterns: string[], method: string): boolean {
+  return patterns.some(pattern => pattern === method || (pattern.endsWith('.*') && method.startsWith(pattern.slice(0, -1))));
+}
+
+export function createCDPEventLog(): CDPEventLog {
+  return { subscriptions: new Map<string, EventSubscription>(), queues: new Map<string, EventQueue>(), seq: 0, subscriptionCount: 0 };
+}
+
+/**
+ * Starts queueing a target's events that match the patterns. A capacity resizes the target's queue.
+ */
+export function addEventSubscription(log: CDPEventLog, targetId: string, events: string[], capacity?: number): EventSubscription {
+  if (events.length === 0) {
+    throw new Error('events must name at least one event');
+  }
+  eventDomains(events);
+  const queue = log.queues.get(targetId);
+  if (!queue) {
+    log.queues.set(targetId, createEventQueue(capacity));
+  } else if (capacity !== undefined) {
+    resizeEventQueue(queue, capacity);
+  }
+
+  const subscription: EventSubscription = { id: `events-${++log.subscriptionCount}`, targetId, events, createdAt: new Date() };
+  log.subscriptions.set(subscription.id, subscription);
+  return subscription;
+}
+
+/**
+ * Stops a subscription. Events already queued stay until they are pushed out.
+ */
+export function removeEventSubscription(log: CDPEventLog, subscriptionId: string): EventSubscription | undefined {
+  const subscription = log.subscriptions.get(subscriptionId);
+  log.subscriptions.delete(subscriptionId);
+  return subscription;
+}
+
+export function targetSubscriptions(log: CDPEventLog, targetId: string): EventSubscription[] {
+  return Array.from(log.subscriptions.values()).filter(s => s.targetId === targetId);
+}
+
+/**
+ * Queues an event if a subscription for its target wants it
+ */
+export function recordCDPEvent(
+  log: CDPEventLog,
+  targetId: string,
+  event: { method: string; params?: unknown; sessionId?: string },
+  time: Date = new Date()
+): CDPEventRecord | undefined {
+  const queue = log.queues.get(targetId);
+  if (!queue || !targetSubscriptions(log, targetId).some(s => eventMatches(s.events, event.method))) {
+    return undefined;
+  }
+  const record: CDPEventRecord = { seq: ++log.seq, time, targetId, method: event.method, params: event.params ?? {}, sessionId: event.sessionId };
+  pushEvent(queue, record);
+  return record;
+}
+
+export function createEventQueue(capacity: number = DEFAULT_EVENT_QUEUE_CAPACITY): EventQueue {
+  if (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_EVENT_QUEUE_CAPACITY) {
+    throw new Error(`capacity must be an integer between 1 and ${MAX_EVENT_QUEUE_CAPACITY}`);
+  }
+  return { capacity, events: [], dropped: 0, lastDroppedSeq: 0 };
+}
+
+export function pushEvent(queue: EventQueue, record: CDPEventRecord): void {
+  queue.events.push(record);
+  trimEventQueue(queue);
+}
+
+/**
+ * Changes a queue's capacity, dropping the oldest events if it shrinks
+ */
+export function resizeEventQueue(queue: EventQueue, capacity: number): void {
+  createEventQueue(capacity); // Validates
+  queue.capacity = capacity;
+  trimEventQueue(queue);
+}
+
+function trimEventQueue(queue: EventQueue): void {
+  const excess = queue.events.length - queue.capacity;
+  if (excess > 0) {
+    const removed = queue.events.splice(0, excess);
+    queue.dropped += excess;
+    queue.lastDroppedSeq = removed[removed.length - 1].seq;
+  }
+}
+
+/**
+ * Events after a sequence number across some queues, oldest first
+ */
+export function pollEvents(queues: EventQueue[], options: EventPollOptions = {}): EventPollResult {
+  const afterSeq = options.afterSeq ?? 0;
+  const limit = options.limit ?? DEFAULT_EVENT_POLL_LIMIT;
+  if (options.method) {
+    parseEventPattern(options.method);
+  }
+  const patterns = options.method ? [options.method] : undefined;
+
+  const matching = queues
+    .flatMap(queue => queue.events)
+    .filter(event => event.seq > afterSeq &&
+      (!options.targetId || event.targetId === options.targetId) &&
+      (!patterns || eventMatches(patterns, event.method)))
+    .sort((a, b) => a.seq - b.seq);
+  const events = matching.slice(0, limit);
+
+  return {
+    events,
+    nextSeq: events.length > 0 ? events[events.length - 1].seq : afterSeq,
+    hasMore: matching.length > events.length,
+    gap: queues.some(queue => queue.lastDroppedSeq > afterSeq)
+  };
+}
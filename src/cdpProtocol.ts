@@ -0,0 +1,252 @@
+/**
+ * The protocol descriptor a target serves at /json/protocol, and checks of a
+ * command against it before it is sent. The browser would reject a bad call
+ * too, but its errors rarely say which parameter was wrong.
+ */
+
+export interface ProtocolProperty {
+  name: string;
+  description?: string;
+  type?: string; // "string", "integer", "number", "boolean", "object", "array" or "any"
+  $ref?: string; // Type ID, qualified with its domain when it lives in another one
+  optional?: boolean;
+  experimental?: boolean;
+  deprecated?: boolean;
+  enum?: string[];
+  items?: { type?: string; $ref?: string };
+}
+
+export interface ProtocolType {
+  id: string;
+  description?: string;
+  type: string;
+  experimental?: boolean;
+  deprecated?: boolean;
+  enum?: string[];
+  properties?: ProtocolProperty[];
+  items?: { type?: string; $ref?: string };
+}
+
+export interface ProtocolCommand {
+  name: string;
+  description?: string;
+  experimental?: boolean;
+  deprecated?: boolean;
+  parameters?: ProtocolProperty[];
+  returns?: ProtocolProperty[];
+}
+
+export interface ProtocolEvent {
+  name: string;
+  description?: string;
+  experimental?: boolean;
+  deprecated?: boolean;
+  parameters?: ProtocolProperty[];
+}
+
+export interface ProtocolDomain {
+  domain: string;
+  description?: string;
+  experimental?: boolean;
+  deprecated?: boolean;
+  dependencies?: string[];
+  types?: ProtocolType[];
+  commands: ProtocolCommand[];
+  events?: ProtocolEvent[];
+}
+
+export interface ProtocolDescriptor {
+  version?: { major: string; minor: string };
+  domains: ProtocolDomain[];
+}
+
+// What the browser sends back for a failed command
+export interface CDPErrorDetails {
+  code?: number;
+  message: string;
+  data?: string;
+}
+
+// Objects nested deeper than this are accepted as they are
+const MAX_VALIDATION_DEPTH = 8;
+
+/**
+ * Splits "Domain.command"
+ */
+export function parseCDPMethod(method: string): { domain: string; command: string } {
+  const match = /^([A-Za-z][A-Za-z0-9]*)\.([A-Za-z][A-Za-z0-9]*)$/.exec(method);
+  if (!match) {
+    throw new Error(`Invalid CDP method "${method}"; expected Domain.command, e.g. Page.navigate`);
+  }
+  return { domain: match[1], command: match[2] };
+}
+
+export function isProtocolDescriptor(value: unknown): value is ProtocolDescriptor {
+  return typeof value === 'object' && value !== null && Array.isArray((value as ProtocolDescriptor).domains);
+}
+
+export function findCommand(protocol: ProtocolDescriptor, method: string): { domain: ProtocolDomain; command: ProtocolCommand } {
+  const { domain: domainName, command: commandName } = parseCDPMethod(method);
+  const domain = getProtocolDomain(protocol, domainName);
+  const command = domain.commands.find(c => c.name === commandName);
+  if (!command) {
+    throw new Error(`Unknown CDP command "${method}"; ${domainName} has ${domain.commands.map(c => c.name).join(', ')}`);
+  }
+  return { domain, command };
+}
+
+export interface ProtocolDomainSummary {
+  domain: string;
+  description?: string;
+  experimental?: boolean;
+  deprecated?: boolean;
+  dependencies?: string[];
+  commands: string[];
+  events: string[];
+  types: string[];
+}
+
+/**
+ * Names of each domain's commands, events and types; the full descriptor of a domain is large
+ */
+export function summarizeProtocol(protocol: ProtocolDescriptor): { version?: ProtocolDescriptor['version']; domains: ProtocolDomainSummary[] } {
+  return {
+    version: protocol.version,
+    domains: protocol.domains.map(domain => ({
+      domain: domain.domain,
+      description: domain.description,
+      experimental: domain.experimental,
+      deprecated: domain.deprecated,
+      dependencies: domain.dependencies,
+      commands: domain.commands.map(c => c.name),
+      events: (domain.events ?? []).map(e => e.name),
+      types: (domain.types ?? []).map(t => t.id)
+    }))
+  };
+}
+
+export function getProtocolDomain(protocol: ProtocolDescriptor, domainName: string): ProtocolDomain {
+  const domain = protocol.domains.find(d => d.domain === domainName);
+  if (!domain) {
+    throw new Error(`Unknown CDP domain "${domainName}"; this target has ${protocol.domains.map(d => d.domain).join(', ')}`);
+  }
+  return domain;
+}
+
+function resolveType(protocol: ProtocolDescriptor, domain: string, ref: string): ProtocolType | undefined {
+  const [typeDomain, id] = ref.includes('.') ? ref.split('.', 2) : [domain, ref];
+  return protocol.domains.find(d => d.domain === typeDomain)?.types?.find(t => t.id === id);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function checkValue(
+  protocol: ProtocolDescriptor,
+  domain: string,
+  spec: { type?: string; $ref?: string; enum?: string[]; items?: { type?: string; $ref?: string } },
+  value: unknown,
+  path: string,
+  problems: string[],
+  depth: number
+): void {
+  if (spec.$ref) {
+    const type = resolveType(protocol, domain, spec.$ref);
+    if (!type) {
+      return; // Not described, so nothing to check against
+    }
+    const typeDomain = spec.$ref.includes('.') ? spec.$ref.split('.', 1)[0] : domain;
+    checkValue(protocol, typeDomain, type, value, path, problems, depth);
+    if (type.properties && depth < MAX_VALIDATION_DEPTH && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      checkProperties(protocol, typeDomain, type.properties, value as Record<string, unknown>, `${path}.`, problems, depth + 1);
+    }
+    return;
+  }
+
+  const actual = describeValue(value);
+  switch (spec.type) {
+    case 'integer':
+      if (!Number.isInteger(value)) {
+        problems.push(`${path} must be an integer, got ${actual}`);
+      }
+      return;
+    case 'number':
+    case 'string':
+    case 'boolean':
+    case 'object':
+      if (actual !== spec.type) {
+        problems.push(`${path} must be ${spec.type === 'object' ? 'an' : 'a'} ${spec.type}, got ${actual}`);
+      } else if (spec.enum && !spec.enum.includes(value as string)) {
+        problems.push(`${path} must be one of ${spec.enum.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`);
+      }
+      return;
+    case 'array':
+      if (actual !== 'array') {
+        problems.push(`${path} must be an array, got ${actual}`);
+      } else if (spec.items && depth < MAX_VALIDATION_DEPTH) {
+        (value as unknown[]).forEach((item, i) => checkValue(protocol, domain, spec.items!, item, `${path}[${i}]`, problems, depth + 1));
+      }
+      return;
+    default:
+      return; // "any"
+  }
+}
+
+function checkProperties(
+  protocol: ProtocolDescriptor,
+  domain: string,
+  properties: ProtocolProperty[],
+  values: Record<string, unknown>,
+  prefix: string,
+  problems: string[],
+  depth: number
+): void {
+  for (const property of properties) {
+    const value = values[property.name];
+    if (value === undefined) {
+      if (!property.optional) {
+        problems.push(`${prefix}${property.name} is required`);
+      }
+      continue;
+    }
+    checkValue(protocol, domain, property, value, `${prefix}${property.name}`, problems, depth);
+  }
+  for (const name of Object.keys(values)) {
+    if (!properties.some(p => p.name === name)) {
+      problems.push(`${prefix}${name} is not a parameter; expected ${properties.map(p => p.name).join(', ') || 'none'}`);
+    }
+  }
+}
+
+/**
+ * Problems with a call's parameters, as "params.x must be ..." lines; empty when the call looks valid.
+ * Throws if the target doesn't have the method at all.
+ */
+export function validateCDPCall(protocol: ProtocolDescriptor, method: string, params: Record<string, unknown>): string[] {
+  const { domain, command } = findCommand(protocol, method);
+  const problems: string[] = [];
+  checkProperties(protocol, domain.domain, command.parameters ?? [], params, 'params.', problems, 0);
+  return problems;
+}
+
+/**
+ * The code, message and data of a protocol error, or just the message for anything else
+ */
+export function cdpErrorDetails(error: unknown): CDPErrorDetails {
+  const response = (error as { response?: { code?: unknown; message?: unknown; data?: unknown } } | null)?.response;
+  if (response && typeof response.message === 'string') {
+    return {
+      code: typeof response.code === 'number' ? response.code : undefined,
+      message: response.message,
+      data: typeof response.data === 'string' ? response.data : undefined
+    };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
@@ -0,0 +1,162 @@
+import type { CDPClient } from 'chrome-remote-interface';
+
+export interface CDPSession {
+  targetId: string;
+  client: CDPClient;
+  openedAt: Date;
+  stale: boolean; // Set when the socket closed without us asking
+  reconnects: number;
+}
+
+export interface CDPSessionPool {
+  sessions: Map<string, CDPSession>;
+  pending: Map<string, Promise<CDPSession>>; // Connections still being opened
+}
+
+export type CDPConnector = (targetId: string) => Promise<CDPClient>;
+
+export interface ReconnectOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  maxAttempts: 4,
+  baseDelayMs: 250,
+  maxDelayMs: 2000
+};
+
+export function createCDPSessionPool(): CDPSessionPool {
+  return {
+    sessions: new Map<string, CDPSession>(),
+    pending: new Map<string, Promise<CDPSession>>()
+  };
+}
+
+/**
+ * Delay before reconnect attempt number `attempt` (starting at 1), doubling up to maxDelayMs
+ */
+export function reconnectDelay(attempt: number, options: ReconnectOptions = {}): number {
+  const { baseDelayMs, maxDelayMs } = { ...DEFAULT_RECONNECT_OPTIONS, ...options };
+  return Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+}
+
+async function reconnect(targetId: string, connect: CDPConnector, options: ReconnectOptions): Promise<CDPClient> {
+  const { maxAttempts } = { ...DEFAULT_RECONNECT_OPTIONS, ...options };
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await connect(targetId);
+    } catch (error) {
+      lastError = error;
+      if (attempt < maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, reconnectDelay(attempt, options)));
+      }
+    }
+  }
+
+  throw new Error(`Could not reconnect to target ${targetId} after ${maxAttempts} attempts: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+}
+
+/**
+ * Returns the client for a target, opening a session on first use.
+ * Concurrent callers for the same target share one connection attempt.
+ * Sessions whose socket dropped are reconnected with bounded backoff.
+ */
+export async function acquireSession(pool: CDPSessionPool, targetId: string, connect: CDPConnector, options: ReconnectOptions = {}): Promise<CDPClient> {
+  const existing = pool.sessions.get(targetId);
+  if (existing && !existing.stale) {
+    return existing.client;
+  }
+
+  let pending = pool.pending.get(targetId);
+  if (!pending) {
+    const opening = existing ? reconnect(targetId, connect, options) : connect(targetId);
+    pending = opening.then((client) => {
+      const session: CDPSession = {
+        targetId,
+        client,
+        openedAt: new Date(),
+        stale: false,
+        reconnects: existing ? existing.reconnects + 1 : 0
+      };
+      client.on('disconnect', () => {
+        session.stale = true;
+      });
+      pool.sessions.set(targetId, session);
+      return session;
+    }, (error: unknown) => {
+      // A stale session that cannot be revived is dropped so the next call starts fresh
+      if (existing && pool.sessions.get(targetId) === existing) {
+        pool.sessions.delete(targetId);
+      }
+      throw error;
+    });
+    pool.pending.set(targetId, pending);
+  }
+
+  try {
+    return (await pending).client;
+  } finally {
+    pool.pending.delete(targetId);
+  }
+}
+
+/**
+ * Closes the session for a target, if one is open
+ */
+export function closeSession(pool: CDPSessionPool, targetId: string): boolean {
+  const session = pool.sessions.get(targetId);
+  if (!session) {
+    return false;
+  }
+
+  pool.sessions.delete(targetId);
+  try {
+    session.client.close();
+  } catch {
+    // The socket is already gone, nothing left to release
+  }
+  return true;
+}
+
+export function closeAllSessions(pool: CDPSessionPool): void {
+  for (const targetId of Array.from(pool.sessions.keys())) {
+    closeSession(pool, targetId);
+  }
+}
+
+/**
+ * Closes sessions whose targets are no longer listed and returns their IDs
+ */
+export function pruneSessions(pool: CDPSessionPool, liveTargetIds: Iterable<string>): string[] {
+  const live = new Set(liveTargetIds);
+  const pruned: string[] = [];
+
+  for (const targetId of Array.from(pool.sessions.keys())) {
+    if (!live.has(targetId)) {
+      closeSession(pool, targetId);
+      pruned.push(targetId);
+    }
+  }
+
+  return pruned;
+}
+
+export interface CDPSessionSummary {
+  targetId: string;
+  openedAt: string;
+  stale: boolean;
+  reconnects: number;
+}
+
+export function describeSessions(pool: CDPSessionPool): CDPSessionSummary[] {
+  return Array.from(pool.sessions.values()).map(session => ({
+    targetId: session.targetId,
+    openedAt: session.openedAt.toISOString(),
+    stale: session.stale,
+    reconnects: session.reconnects
+  }));
+}
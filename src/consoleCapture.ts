@@ -0,0 +1,172 @@
+import { LogEntry, LogLevel } from './logEntries.js';
+
+/**
+ * Log entries for what pages report over CDP: console API calls, uncaught
+ * exceptions, and browser-side messages such as network errors and violations
+ */
+
+// The parts of Runtime.RemoteObject worth a preview
+export interface RemoteObject {
+  type: string;
+  subtype?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  preview?: {
+    type: string;
+    subtype?: string;
+    overflow: boolean;
+    properties: Array<{ name: string; type: string; subtype?: string; value?: string }>;
+  };
+}
+
+export interface StackTrace {
+  callFrames: Array<{ functionName: string; url: string; lineNumber: number; columnNumber: number }>;
+}
+
+export interface ConsoleAPICalledEvent {
+  type: string;
+  args: RemoteObject[];
+  timestamp: number; // Milliseconds since the epoch
+  stackTrace?: StackTrace;
+}
+
+export interface ExceptionThrownEvent {
+  timestamp: number;
+  exceptionDetails: {
+    text: string;
+    url?: string;
+    lineNumber: number;
+    columnNumber: number;
+    exception?: RemoteObject;
+    stackTrace?: StackTrace;
+  };
+}
+
+export interface LogEntryAddedEvent {
+  entry: {
+    source: string; // "network", "violation", "security", ...
+    level: 'verbose' | 'info' | 'warning' | 'error';
+    text: string;
+    timestamp: number;
+    url?: string;
+    lineNumber?: number;
+    stackTrace?: StackTrace;
+  };
+}
+
+export interface PageContext {
+  targetId: string;
+  url: string;
+}
+
+export const MAX_STACK_FRAMES = 10;
+export const MAX_ARG_PREVIEW_LENGTH = 500;
+
+/**
+ * Level of a console API call by its type (log, warning, error, assert, ...)
+ */
+export function consoleLevel(type: string): LogLevel {
+  switch (type) {
+    case 'debug':
+      return 'verbose';
+    case 'warning':
+      return 'warning';
+    case 'error':
+    case 'assert':
+      return 'error';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * One-line preview of a value, the way DevTools would show it collapsed
+ */
+export function formatRemoteObject(object: RemoteObject): string {
+  let text: string;
+  if (object.type === 'string') {
+    text = String(object.value);
+  } else if (object.unserializableValue !== undefined) {
+    text = object.unserializableValue;
+  } else if (object.type === 'undefined') {
+    text = 'undefined';
+  } else if (object.subtype === 'null') {
+    text = 'null';
+  } else if (object.type !== 'object' && object.type !== 'function' && 'value' in object) {
+    text = String(object.value);
+  } else if (object.preview && object.subtype !== 'error') {
+    const { preview } = object;
+    const properties = preview.properties.map(p => {
+      const value = p.type === 'string' ? JSON.stringify(p.value ?? '') : p.value ?? p.type;
+      return preview.subtype === 'array' ? value : `${p.name}: ${value}`;
+    });
+    if (preview.overflow) {
+      properties.push('…');
+    }
+    text = preview.subtype === 'array'
+      ? `[${properties.join(', ')}]`
+      : `${object.description && object.description !== 'Object' ? `${object.description} ` : ''}{${properties.join(', ')}}`;
+  } else {
+    text = object.description ?? object.type;
+  }
+  return text.length > MAX_ARG_PREVIEW_LENGTH ? `${text.slice(0, MAX_ARG_PREVIEW_LENGTH)}…` : text;
+}
+
+/**
+ * Frames as "functionName (url:line:column)", with 1-based line and column like DevTools
+ */
+export function formatStackTrace(stackTrace?: StackTrace): string[] | undefined {
+  if (!stackTrace || stackTrace.callFrames.length === 0) {
+    return undefined;
+  }
+  return stackTrace.callFrames.slice(0, MAX_STACK_FRAMES).map(frame =>
+    `${frame.functionName || '<anonymous>'} (${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1})`
+  );
+}
+
+export function consoleEntry(event: ConsoleAPICalledEvent, page: PageContext): LogEntry {
+  const args = event.args.map(formatRemoteObject);
+  return {
+    time: new Date(event.timestamp),
+    stream: 'console',
+    level: consoleLevel(event.type),
+    source: `console.${event.type}`,
+    message: args.join(' '),
+    targetId: page.targetId,
+    url: page.url,
+    args,
+    stackTrace: formatStackTrace(event.stackTrace)
+  };
+}
+
+export function exceptionEntry(event: ExceptionThrownEvent, page: PageContext): LogEntry {
+  const details = event.exceptionDetails;
+  // The exception's description holds the message and V8's own stack text; keep its first line
+  const description = details.exception?.description?.split('\n')[0];
+  const location = details.url ? `${details.url}:${details.lineNumber + 1}:${details.columnNumber + 1}` : undefined;
+  return {
+    time: new Date(event.timestamp),
+    stream: 'exception',
+    level: 'error',
+    source: location,
+    message: description ? `${details.text} ${description}` : details.text,
+    targetId: page.targetId,
+    url: page.url,
+    stackTrace: formatStackTrace(details.stackTrace)
+  };
+}
+
+export function browserLogEntry(event: LogEntryAddedEvent, page: PageContext): LogEntry {
+  const { entry } = event;
+  return {
+    time: new Date(entry.timestamp),
+    stream: 'browser',
+    level: entry.level,
+    source: entry.source,
+    message: entry.url ? `${entry.text} (${entry.url}${entry.lineNumber !== undefined ? `:${entry.lineNumber + 1}` : ''})` : entry.text,
+    targetId: page.targetId,
+    url: page.url,
+    stackTrace: formatStackTrace(entry.stackTrace)
+  };
+}
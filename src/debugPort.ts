@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Discovery of the remote debugging port when Chromium picks it itself
+ * (--remote-debugging-port=0), which avoids racing other processes for a free port
+ */
+
+export const DEVTOOLS_ACTIVE_PORT_FILE = 'DevToolsActivePort';
+
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+// Ports probed when a fixed range is requested instead of letting Chromium choose
+export const DEFAULT_DEBUG_PORT_RANGE: PortRange = { start: 9222, end: 9999 };
+
+/**
+ * Reads the port from Chromium's "DevTools listening on ws://host:port/devtools/browser/<id>" line
+ */
+export function parseDevToolsListeningLine(output: string): number | undefined {
+  const match = /DevTools listening on (ws:\/\/\S+)/.exec(output);
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    const port = parseInt(new URL(match[1]).port, 10);
+    return Number.isNaN(port) || port === 0 ? undefined : port;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a DevToolsActivePort file: the port on the first line, the browser target path on the second
+ */
+export function parseDevToolsActivePort(contents: string): number | undefined {
+  const port = parseInt(contents.split(/\r?\n/)[0], 10);
+  return Number.isNaN(port) || port === 0 ? undefined : port;
+}
+
+/**
+ * The --user-data-dir passed on the command line, if any. Chromium writes DevToolsActivePort there.
+ */
+export function findUserDataDir(args: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--user-data-dir=')) {
+      return args[i].slice('--user-data-dir='.length);
+    }
+    if (args[i] === '--user-data-dir' && i + 1 < args.length) {
+      return args[i + 1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the port from <userDataDir>/DevToolsActivePort, ignoring a file left over from an earlier run
+ */
+export function readDevToolsActivePort(userDataDir: string, notBefore: Date): number | undefined {
+  const file = path.join(userDataDir, DEVTOOLS_ACTIVE_PORT_FILE);
+  try {
+    if (fs.statSync(file).mtimeMs < notBefore.getTime()) {
+      return undefined;
+    }
+    return parseDevToolsActivePort(fs.readFileSync(file, 'utf8'));
+  } catch {
+    // Not written yet
+    return undefined;
+  }
+}
@@ -0,0 +1,66 @@
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { LogLevel } from './logEntries.js';
+
+/**
+ * Server diagnostics and app output, sent to the client as MCP log messages.
+ * stdout carries the protocol, so nothing may be printed there; until a client
+ * is connected, messages go to stderr instead.
+ */
+
+export const SERVER_LOGGER = 'electron-debug-mcp';
+
+export interface LogMessage {
+  level: LoggingLevel;
+  logger: string;
+  data: unknown;
+}
+
+export interface Diagnostics {
+  send?: (message: LogMessage) => Promise<void>; // Set once the server exists; rejects while no client is connected
+}
+
+export function createDiagnostics(): Diagnostics {
+  return {};
+}
+
+/**
+ * Logger name for an app's own output
+ */
+export function appLogger(processId: string): string {
+  return `electron:${processId}`;
+}
+
+/**
+ * MCP level for a log entry's level
+ */
+export function mcpLevelFor(level: LogLevel): LoggingLevel {
+  switch (level) {
+    case 'verbose':
+      return 'debug';
+    case 'fatal':
+      return 'critical';
+    default:
+      return level;
+  }
+}
+
+function formatForStderr(message: LogMessage): string {
+  const text = typeof message.data === 'string' ? message.data : JSON.stringify(message.data);
+  return `[${message.logger}] ${message.level}: ${text}\n`;
+}
+
+export function logDiagnostic(diagnostics: Diagnostics, level: LoggingLevel, logger: string, data: unknown, error?: unknown): void {
+  if (error !== undefined) {
+    data = `${data}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  const message: LogMessage = { level, logger, data };
+  const toStderr = () => {
+    process.stderr.write(formatForStderr(message));
+  };
+
+  if (!diagnostics.send) {
+    toStderr();
+    return;
+  }
+  diagnostics.send(message).catch(toStderr);
+}
@@ -3,8 +3,11 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ListToolsRequestSchema,
-  CallToolRequestSchema
+  CallToolRequestSchema,
+  LoggingLevel
 } from "@modelcontextprotocol/sdk/types.js";
 import { spawn, ChildProcess } from 'child_process';
 import * as fs from 'fs';
@@ -19,6 +22,184 @@ import {
   jsonResourceResponse,
   textResourceResponse
 } from './resourceRouting.js';
+import {
+  CDPSessionPool,
+  createCDPSessionPool,
+  acquireSession,
+  closeAllSessions,
+  pruneSessions,
+  describeSessions,
+  CDPSessionSummary
+} from './cdpSessions.js';
+import {
+  TargetLifecycleEvent,
+  diffTargets,
+  recordTargetEvents,
+  isTargetCrashed
+} from './targetLifecycle.js';
+import {
+  MAIN_PROCESS_TARGET_ID,
+  MainProcessInspectMode,
+  DEFAULT_INSPECT_PORT,
+  buildInspectArg,
+  wrapMainProcessExpression
+} from './mainProcess.js';
+import { buildLaunchArgs, buildLaunchEnv } from './launchConfig.js';
+import {
+  CDPVersionInfo,
+  ElectronVersions,
+  parseElectronVersions,
+  fetchVersionInfo,
+  isEndpointGone
+} from './versionInfo.js';
+import {
+  LogEntry,
+  LogLevel,
+  createLineSplitter,
+  splitLines,
+  flushLines,
+  createLogEntry,
+  formatLogText
+} from './logEntries.js';
+import {
+  LOG_LEVELS,
+  filterLogEntries,
+  encodeLogCursor,
+  decodeLogCursor,
+  parseTimeBound
+} from './logQuery.js';
+import {
+  ConsoleAPICalledEvent,
+  ExceptionThrownEvent,
+  LogEntryAddedEvent,
+  PageContext,
+  consoleEntry,
+  exceptionEntry,
+  browserLogEntry
+} from './consoleCapture.js';
+import {
+  LogSink,
+  getLogSettings,
+  getProcessLogDir,
+  createLogSink,
+  writeLogEntry,
+  closeLogSink,
+  listLogArchive,
+  LOG_DIR_ENV
+} from './logArchive.js';
+import { ExitResult, shutdownProcess, signalProcessTree, DEFAULT_GRACE_PERIOD_MS } from './processShutdown.js';
+import {
+  RestartPolicy,
+  SupervisorOptions,
+  CrashRecord,
+  DEFAULT_SUPERVISOR_OPTIONS,
+  shouldRestart,
+  restartDelay,
+  recordCrash,
+  tailLogLines
+} from './supervisor.js';
+import {
+  PortRange,
+  DEFAULT_DEBUG_PORT_RANGE,
+  parseDevToolsListeningLine,
+  findUserDataDir,
+  readDevToolsActivePort
+} from './debugPort.js';
+import { createTemporaryProfile, removeTemporaryProfile } from './profile.js';
+import {
+  ProcessSample,
+  ProcessTreeSample,
+  ProcessMetrics,
+  WebContentsProcess,
+  processTypeFromSystemInfo,
+  readProcessTree,
+  mergeProcessSamples,
+  computeCpuPercents,
+  matchTargetsToWebContents
+} from './processMetrics.js';
+import {
+  validateSnapshotName,
+  resolveSnapshot,
+  saveSnapshot,
+  restoreSnapshot
+} from './profileSnapshots.js';
+import {
+  MetricsSample,
+  RingBuffer,
+  TRACKED_TARGET_METRICS,
+  DEFAULT_SAMPLE_INTERVAL_MS,
+  MIN_SAMPLE_INTERVAL_MS,
+  DEFAULT_SAMPLE_CAPACITY,
+  createRingBuffer,
+  pushToRing,
+  ringToArray,
+  resizeRing,
+  summarizeSamples
+} from './metricsSeries.js';
+import {
+  ReadinessCondition,
+  compileReadinessPatterns,
+  findReadinessTarget,
+  logsMatch,
+  isTruthyEvaluation,
+  describeReadinessConditions
+} from './readiness.js';
+import {
+  SeenTarget,
+  ProcessHistoryEntry,
+  FinalStatus,
+  recordTargetsSeen,
+  addHistoryEntry,
+  summarizeHistoryEntry
+} from './processHistory.js';
+import {
+  SERVER_PID_ENV,
+  OrphanProcessGroup,
+  findOrphanedProcesses,
+  reapOrphans
+} from './orphanSweep.js';
+import {
+  Diagnostics,
+  SERVER_LOGGER,
+  createDiagnostics,
+  appLogger,
+  mcpLevelFor,
+  logDiagnostic
+} from './diagnostics.js';
+import {
+  ResourceNotifier,
+  createResourceNotifier,
+  subscribeResource,
+  unsubscribeResource,
+  processResourceUris,
+  notifyResourcesUpdated,
+  notifyResourceListChanged,
+  eventsResourceUri
+} from './resourceNotifications.js';
+import {
+  ProtocolDescriptor,
+  parseCDPMethod,
+  isProtocolDescriptor,
+  validateCDPCall,
+  cdpErrorDetails,
+  summarizeProtocol,
+  getProtocolDomain
+} from './cdpProtocol.js';
+import {
+  CDPEventLog,
+  createCDPEventLog,
+  addEventSubscription,
+  removeEventSubscription,
+  targetSubscriptions,
+  recordCDPEvent,
+  checkEventPatterns,
+  eventDomains,
+  createEventQueue,
+  resizeEventQueue,
+  pollEvents,
+  DEFAULT_EVENT_QUEUE_CAPACITY,
+  DEFAULT_EVENT_POLL_LIMIT
+} from './cdpEvents.js';
 
 // Note: Operations have been moved to tools (electron_start, electron_stop, etc.)
 // See ListToolsRequestSchema and CallToolRequestSchema handlers
@@ -26,25 +207,100 @@ import {
 // Type definitions for Electron processes and debugging info
 interface ElectronProcess {
   id: string;
-  process: ChildProcess;
+  process?: ChildProcess; // Absent for apps we attached to instead of launching
+  mode: 'launched' | 'attached';
   name: string;
-  status: 'running' | 'stopped' | 'crashed';
+  status: 'running' | 'stopped' | 'crashed' | 'restarting';
+  stopRequested?: boolean; // Set by stopElectronApp so a signalled exit isn't taken for a crash
   pid?: number;
+  host: string; // Host the remote debugging endpoint listens on
   debugPort?: number;
+  inspectPort?: number; // Node inspector port of the main process, if enabled
+  inspectMode?: MainProcessInspectMode;
+  mainTarget?: CDPTarget; // Main process target reported by the Node inspector
   startTime: Date;
-  logs: string[];
-  appPath: string;
-  cdpClient?: CDPClient; // Chrome DevTools Protocol client
+  logs: LogEntry[]; // One entry per line of output, oldest first
+  logSeq: number; // Sequence number of the latest log entry
+  maxLogEntries: number; // Older entries are dropped from memory beyond this
+  logSink?: LogSink; // On-disk copy of the log, when archiving is on
+  diagnostics: Diagnostics; // The server's, so the log is also sent to the client
+  notifier: ResourceNotifier; // The server's, for clients subscribed to this process's resources
+  appPath?: string; // Absent for packaged executables and attached apps
+  executablePath?: string; // Packaged app binary launched directly
+  electronPath?: string; // Binary the app was launched with
+  cwd?: string; // Working directory the app was launched in
+  launch?: LaunchSpec; // How to spawn the app again on restart
+  profile?: ProfileInfo; // The --user-data-dir in use, when known
+  supervisor?: SupervisorOptions;
+  restartCount: number;
+  spawnTime?: Date; // Start of the current run, later than startTime after a restart
+  restartTimer?: NodeJS.Timeout; // Pending restart while in backoff
+  crashes: CrashRecord[]; // Crash history, oldest first
+  version?: CDPVersionInfo; // Response of /json/version
+  cdpSessions: CDPSessionPool; // One Chrome DevTools Protocol client per target
+  protocols: Map<string, ProtocolDescriptor>; // What /json/protocol reported, by endpoint
+  cdpEvents: CDPEventLog; // Events clients subscribed to with electron_events_subscribe
+  lastProcessSample?: ProcessTreeSample; // Previous process tree sample, for CPU%
+  metricsSampler?: MetricsSampler; // Kept after sampling stops so the series can still be read
   targets?: CDPTarget[]; // Available debugging targets
   lastTargetUpdate?: Date; // When targets were last updated
+  targetEvents: TargetLifecycleEvent[]; // Created/destroyed/crashed history, oldest first
+  targetsSeen: Map<string, SeenTarget>; // Every target listed since launch, kept for the post-mortem
+  targetWatcher?: NodeJS.Timeout; // Polls the target list so new pages get their console captured
+  unreachablePolls: number; // Target polls in a row that found nothing listening on the debug port
+  consoleWatermarks: Map<string, ConsoleWatermark>; // Per target and stream, to skip messages replayed on reconnect
+}
+
+interface ProfileInfo {
+  userDataDir: string;
+  temporary: boolean; // Created for this launch, as opposed to a --user-data-dir passed in args
+  keep: boolean; // Left in place when the app stops
+  fixture?: string; // Directory the temporary profile was seeded from
+  deleted?: boolean;
+}
+
+interface MetricsSampler {
+  intervalMs: number;
+  samples: RingBuffer<MetricsSample>;
+  timer?: NodeJS.Timeout; // Next sample, while sampling
+  startedAt: Date;
+  stoppedAt?: Date;
+  lastError?: string; // Why the latest sample failed, if it did
+}
+
+interface ConsoleWatermark {
+  time: number; // Latest page message time
+  messages: string[]; // Messages logged at exactly that time
+}
+
+interface LaunchSpec {
+  command: string;
+  args: string[];
+  cwd?: string;
+  env: NodeJS.ProcessEnv;
+  startupTimeout: number;
+  waitForInspector: boolean;
+  discoverDebugPort: boolean; // Chromium picks the port, so learn it anew after every spawn
+  userDataDir?: string; // Where Chromium writes DevToolsActivePort, when known
 }
 
 interface ElectronDebugInfo {
+  versions?: ElectronVersions;
   webContents: ElectronWebContentsInfo[];
-  processes: {
-    main: ProcessInfo;
-    renderers: ProcessInfo[];
+  processes: ProcessMetrics[];
+  unmappedTargets?: string[]; // Targets whose renderer process couldn't be identified
+  mainProcess?: {
+    inspectPort: number;
+    inspectMode?: MainProcessInspectMode;
+    target?: CDPTarget;
   };
+  cdpSessions: CDPSessionSummary[];
+  targetEvents: TargetLifecycleEvent[];
+  supervisor?: SupervisorOptions & {
+    restartCount: number;
+    crashes: CrashRecord[];
+  };
+  profile?: ProfileInfo;
 }
 
 interface ElectronWebContentsInfo {
@@ -65,20 +321,21 @@ interface CDPTarget {
   devtoolsFrontendUrl?: string;
 }
 
-interface ProcessInfo {
-  pid: number;
-  cpuUsage: number;
-  memoryUsage: number;
-  status: string;
-}
-
 interface McpRuntimeState {
   electronProcesses: Map<string, ElectronProcess>;
+  history: Map<string, ProcessHistoryEntry>; // Processes that are no longer managed, oldest first
+  orphans: OrphanProcessGroup[]; // Apps left behind by earlier server instances, found at startup
+  diagnostics: Diagnostics;
+  notifier: ResourceNotifier;
 }
 
 function createRuntimeState(): McpRuntimeState {
   return {
-    electronProcesses: new Map<string, ElectronProcess>()
+    electronProcesses: new Map<string, ElectronProcess>(),
+    history: new Map<string, ProcessHistoryEntry>(),
+    orphans: [],
+    diagnostics: createDiagnostics(),
+    notifier: createResourceNotifier()
   };
 }
 
@@ -98,29 +355,76 @@ function isPortAvailable(port: number): Promise<boolean> {
   });
 }
 
-export function getElectronExecutablePath(): string {
+/**
+ * Returns the requested port if it is free, otherwise the first free port in the range
+ */
+async function resolvePort(requested: number | undefined, rangeStart: number, rangeEnd: number, label: string): Promise<number> {
+  if (requested) {
+    // Check if specified port is available
+    if (!(await isPortAvailable(requested))) {
+      throw new Error(`${label} ${requested} is not available`);
+    }
+    return requested;
+  }
+
+  for (let port = rangeStart; port <= rangeEnd; port++) {
+    if (await isPortAvailable(port)) {
+      return port;
+    }
+  }
+  throw new Error(`No available ${label.toLowerCase()} found in range ${rangeStart}-${rangeEnd}`);
+}
+
+/**
+ * Directories whose node_modules may hold the Electron binary for a project:
+ * the project path and its ancestors first, then the server's own cwd as a last resort
+ */
+function getProjectSearchDirs(projectPath: string): string[] {
+  const dirs: string[] = [];
+  for (const start of [projectPath, process.cwd()]) {
+    let dir = path.resolve(start);
+    while (!dirs.includes(dir)) {
+      dirs.push(dir);
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+  }
+  return dirs;
+}
+
+export function getElectronExecutablePath(projectPath: string = process.cwd()): string {
   const platform = os.platform();
   const possiblePaths: string[] = [];
+  const projectDirs = getProjectSearchDirs(projectPath);
 
   if (platform === 'win32') {
     // Windows paths
     possiblePaths.push(
       path.join(os.homedir(), 'AppData', 'Roaming', 'npm', 'electron.cmd'),
-      path.resolve(process.cwd(), 'node_modules', '.bin', 'electron.cmd'),
-      path.resolve(process.cwd(), 'node_modules', 'electron', 'dist', 'electron.exe')
+      ...projectDirs.flatMap(dir => [
+        path.resolve(dir, 'node_modules', '.bin', 'electron.cmd'),
+        path.resolve(dir, 'node_modules', 'electron', 'dist', 'electron.exe')
+      ])
     );
   } else if (platform === 'darwin') {
     // macOS paths
     possiblePaths.push(
-      path.resolve(process.cwd(), 'node_modules', '.bin', 'electron'),
-      path.resolve(process.cwd(), 'node_modules', 'electron', 'dist', 'Electron.app', 'Contents', 'MacOS', 'Electron'),
+      ...projectDirs.flatMap(dir => [
+        path.resolve(dir, 'node_modules', '.bin', 'electron'),
+        path.resolve(dir, 'node_modules', 'electron', 'dist', 'Electron.app', 'Contents', 'MacOS', 'Electron')
+      ]),
       path.join(os.homedir(), '.npm-global', 'bin', 'electron')
     );
   } else {
     // Linux paths
     possiblePaths.push(
-      path.resolve(process.cwd(), 'node_modules', '.bin', 'electron'),
-      path.resolve(process.cwd(), 'node_modules', 'electron', 'dist', 'electron'),
+      ...projectDirs.flatMap(dir => [
+        path.resolve(dir, 'node_modules', '.bin', 'electron'),
+        path.resolve(dir, 'node_modules', 'electron', 'dist', 'electron')
+      ]),
       path.join(os.homedir(), '.npm-global', 'bin', 'electron'),
       path.join(os.homedir(), '.local', 'bin', 'electron')
     );
@@ -137,145 +441,668 @@ export function getElectronExecutablePath(): string {
   return 'electron';
 }
 
-async function startElectronApp(state: McpRuntimeState, appPath: string, debugPort?: number, startupTimeout: number = 30000): Promise<ElectronProcess> {
+interface MainProcessInspectOptions {
+  mode: MainProcessInspectMode;
+  port?: number;
+}
+
+interface ElectronLaunchOptions {
+  appPath?: string; // App directory or entry script run with electronPath
+  executablePath?: string; // Packaged executable (AppImage, linux-unpacked/, .exe) run directly instead
+  debugPort?: number; // 0 or omitted: let Chromium choose a free port
+  debugPortRange?: PortRange; // Probe this range for a free port instead of letting Chromium choose
+  startupTimeout?: number;
+  inspect?: MainProcessInspectOptions;
+  args?: string[]; // Extra Chromium switches and app arguments
+  env?: Record<string, string>; // Environment overrides
+  unsetEnv?: string[]; // Environment variables to remove
+  cwd?: string; // Working directory (default: the server's cwd)
+  electronPath?: string; // Explicit Electron binary (default: resolved from appPath)
+  restartPolicy?: RestartPolicy;
+  maxRestarts?: number;
+  restartBackoffMs?: number;
+  readyWhen?: ReadinessCondition; // Wait for these before reporting the app as started
+  isolatedProfile?: boolean; // Launch with a fresh temporary --user-data-dir
+  profileFixture?: string; // Directory copied into the temporary profile; implies isolatedProfile
+  keepProfile?: boolean; // Don't delete the temporary profile when the app stops
+  profileSnapshot?: string; // Named snapshot to seed the temporary profile from; implies isolatedProfile
+}
+
+async function startElectronApp(state: McpRuntimeState, options: ElectronLaunchOptions): Promise<ElectronProcess> {
+  const { inspect, startupTimeout = 30000 } = options;
+  if (options.readyWhen && inspect?.mode === 'inspect-brk') {
+    throw new Error('readyWhen cannot be used with inspect-brk: the app stays paused until resumed');
+  }
+  if (options.readyWhen) {
+    compileReadinessPatterns(options.readyWhen);
+  }
+  const logSettings = getLogSettings();
   const id = `electron-${Date.now()}`;
-  const args = [appPath];
+  const cwd = options.cwd ? path.resolve(options.cwd) : undefined;
+  if (!options.appPath === !options.executablePath) {
+    throw new Error('Specify exactly one of appPath or executablePath');
+  }
+  const appPath = options.appPath ? path.resolve(cwd ?? process.cwd(), options.appPath) : undefined;
+  const executablePath = options.executablePath ? path.resolve(cwd ?? process.cwd(), options.executablePath) : undefined;
   
-  // If no debug port specified, find an available port between 9222 and 9999
-  if (!debugPort) {
-    for (let port = 9222; port <= 9999; port++) {
-      if (await isPortAvailable(port)) {
-        debugPort = port;
-        break;
-      }
-    }
-    if (!debugPort) {
-      throw new Error('No available debug port found in range 9222-9999');
-    }
+  // Unless a port or a range to probe is given, Chromium picks a free port itself and
+  // reports it once listening, so nothing can grab it between our check and the launch
+  let debugPort = 0;
+  if (options.debugPort || options.debugPortRange) {
+    const range = options.debugPortRange ?? DEFAULT_DEBUG_PORT_RANGE;
+    debugPort = await resolvePort(options.debugPort, range.start, range.end, 'Debug port');
+  }
+
+  // Expose the main process through the Node inspector
+  let inspectPort: number | undefined;
+  if (inspect) {
+    inspectPort = await resolvePort(inspect.port, DEFAULT_INSPECT_PORT, DEFAULT_INSPECT_PORT + 100, 'Inspector port');
+  }
+
+  // Packaged apps embed their own Electron; otherwise prefer the version the app itself depends on
+  let electronPath: string;
+  if (executablePath) {
+    electronPath = executablePath;
+  } else if (options.electronPath) {
+    electronPath = path.resolve(cwd ?? process.cwd(), options.electronPath);
   } else {
-    // Check if specified port is available
-    const available = await isPortAvailable(debugPort);
-    if (!available) {
-      throw new Error(`Debug port ${debugPort} is not available`);
+    electronPath = getElectronExecutablePath(appPath);
+  }
+
+  // A fresh profile per launch, so runs don't share state with each other or the developer's own profile
+  const ownUserDataDir = findUserDataDir(options.args ?? []);
+  let profile: ProfileInfo | undefined;
+  if (options.isolatedProfile || options.profileFixture || options.profileSnapshot) {
+    if (ownUserDataDir) {
+      throw new Error('isolatedProfile cannot be combined with a --user-data-dir argument');
+    }
+    if (options.profileFixture && options.profileSnapshot) {
+      throw new Error('Specify at most one of profileFixture or profileSnapshot');
     }
+    const fixture = options.profileSnapshot
+      ? resolveSnapshot(options.profileSnapshot)
+      : options.profileFixture ? path.resolve(cwd ?? process.cwd(), options.profileFixture) : undefined;
+    profile = {
+      userDataDir: createTemporaryProfile(fixture),
+      temporary: true,
+      keep: !!options.keepProfile,
+      fixture
+    };
+  } else if (ownUserDataDir) {
+    profile = { userDataDir: path.resolve(cwd ?? process.cwd(), ownUserDataDir), temporary: false, keep: true };
   }
-  
-  // Add debugging flags
-  args.unshift(`--remote-debugging-port=${debugPort}`);
-  args.unshift('--enable-logging');
-  
-  const electronPath = getElectronExecutablePath();
-  const electronProc = spawn(electronPath, args, {
-    stdio: ['pipe', 'pipe', 'pipe'],
-    env: { ...process.env, ELECTRON_ENABLE_LOGGING: '1' }
+
+  const args = buildLaunchArgs({
+    appPath,
+    debugPort,
+    inspectArg: inspect && inspectPort ? buildInspectArg(inspect.mode, inspectPort) : undefined,
+    userDataDir: profile?.temporary ? profile.userDataDir : undefined,
+    extraArgs: options.args
   });
-  
   const electronProcess: ElectronProcess = {
     id,
-    process: electronProc,
-    name: path.basename(appPath),
+    mode: 'launched',
+    name: path.basename(appPath ?? electronPath),
     status: 'running',
-    pid: electronProc.pid,
-    debugPort,
+    host: 'localhost',
+    debugPort: debugPort || undefined,
+    inspectPort,
+    inspectMode: inspect?.mode,
     startTime: new Date(),
     logs: [],
-    appPath
+    logSeq: 0,
+    maxLogEntries: logSettings.maxEntries,
+    logSink: logSettings.archive ? createLogSink(logSettings.archive, id) : undefined,
+    diagnostics: state.diagnostics,
+    notifier: state.notifier,
+    appPath,
+    executablePath,
+    electronPath,
+    cwd: cwd ?? process.cwd(),
+    launch: {
+      command: electronPath,
+      args,
+      cwd,
+      // Tag the app so a later server instance can recognise it as an orphan
+      env: buildLaunchEnv(process.env, { ...options.env, [SERVER_PID_ENV]: String(process.pid) }, options.unsetEnv),
+      startupTimeout,
+      // With --inspect-brk the app is halted before it opens any window,
+      // so only the inspector can answer until someone resumes it
+      waitForInspector: inspect?.mode === 'inspect-brk',
+      discoverDebugPort: debugPort === 0,
+      userDataDir: profile?.userDataDir
+    },
+    profile,
+    supervisor: {
+      policy: options.restartPolicy ?? DEFAULT_SUPERVISOR_OPTIONS.policy,
+      maxRestarts: options.maxRestarts ?? DEFAULT_SUPERVISOR_OPTIONS.maxRestarts,
+      backoffMs: options.restartBackoffMs ?? DEFAULT_SUPERVISOR_OPTIONS.backoffMs
+    },
+    restartCount: 0,
+    crashes: [],
+    cdpSessions: createCDPSessionPool(),
+    protocols: new Map<string, ProtocolDescriptor>(),
+    cdpEvents: createCDPEventLog(),
+    targetEvents: [],
+    targetsSeen: new Map<string, SeenTarget>(),
+    consoleWatermarks: new Map<string, ConsoleWatermark>(),
+    unreachablePolls: 0
   };
+
+  const deadline = Date.now() + startupTimeout;
+  spawnElectronProcess(state, electronProcess);
+  state.electronProcesses.set(id, electronProcess);
+  notifyResourceListChanged(state.notifier);
+  startTargetWatcher(state, electronProcess);
   
-  // Capture stdout and stderr
-  const MAX_LOG_ENTRIES = 1000; // Prevent memory leak by limiting log entries
+  if (!(await waitForDebugger(electronProcess))) {
+    await failStartup(state, electronProcess, `Could not connect to the remote debugging endpoint within ${startupTimeout}ms`);
+  }
+
+  if (options.readyWhen) {
+    const unmet = await waitForReadiness(electronProcess, options.readyWhen, deadline);
+    if (Object.keys(unmet).length > 0) {
+      await failStartup(state, electronProcess, `App did not become ready within ${startupTimeout}ms; still waiting for ${describeReadinessConditions(unmet).join(', ')}`);
+    }
+  }
+
+  await updateVersionInfo(electronProcess);
+  return electronProcess;
+}
+
+/**
+ * Stops an app that failed to start and throws an error carrying its last log lines.
+ * The full log stays available in the process history.
+ */
+async function failStartup(state: McpRuntimeState, electronProcess: ElectronProcess, reason: string): Promise<never> {
+  const child = electronProcess.process;
+  if (child && (child.exitCode !== null || child.signalCode !== null)) {
+    reason = `Process exited with ${child.signalCode ? `signal ${child.signalCode}` : `code ${child.exitCode}`} before it was ready`;
+  }
+
+  const lastLines = tailLogLines(electronProcess.logs, STARTUP_FAILURE_LOG_LINES);
+  await stopElectronApp(state, electronProcess.id);
+
+  throw new Error([
+    `[Electron ${electronProcess.id}] ${reason}`,
+    lastLines.length > 0 ? `Last log lines:\n${lastLines.join('\n')}` : 'No output was captured',
+    `Full log: ${ELECTRON_RESOURCES.LOGS}${electronProcess.id}`
+  ].join('\n\n'));
+}
+
+const STARTUP_FAILURE_LOG_LINES = 20;
+
+/**
+ * Polls until every readiness condition holds, and returns the ones still unmet
+ * when the deadline passes or the app exits
+ */
+async function waitForReadiness(electronProcess: ElectronProcess, condition: ReadinessCondition, deadline: number): Promise<ReadinessCondition> {
+  const patterns = compileReadinessPatterns(condition);
+  let unmet: ReadinessCondition = condition;
+
+  while (electronProcess.status === 'running') {
+    unmet = {};
+
+    let target: CDPTarget | undefined;
+    try {
+      target = findReadinessTarget(await updateCDPTargets(electronProcess, 'debug'), patterns.targetUrl);
+    } catch {
+      // Endpoint not answering right now; counts as no target
+    }
+
+    if (condition.targetUrl !== undefined && !target) {
+      unmet.targetUrl = condition.targetUrl;
+    }
+    if (patterns.logLine && !logsMatch(electronProcess.logs, patterns.logLine)) {
+      unmet.logLine = condition.logLine;
+    }
+    // readyState turns 'complete' right before load fires, and unlike
+    // Page.loadEventFired it can't be missed by connecting too late
+    if (condition.loadEvent && !(target && await evaluateCondition(electronProcess, target.id, "document.readyState === 'complete'"))) {
+      unmet.loadEvent = true;
+    }
+    if (condition.expression !== undefined && !(target && await evaluateCondition(electronProcess, target.id, condition.expression))) {
+      unmet.expression = condition.expression;
+    }
+
+    if (Object.keys(unmet).length === 0 || Date.now() >= deadline) {
+      return unmet;
+    }
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  return unmet;
+}
+
+async function evaluateCondition(electronProcess: ElectronProcess, targetId: string, expression: string): Promise<boolean> {
+  try {
+    return isTruthyEvaluation(await executeCDPCommand(electronProcess, targetId, 'Runtime', 'evaluate', {
+      expression,
+      returnByValue: true,
+      awaitPromise: true
+    }));
+  } catch {
+    // Page still loading or navigating
+    return false;
+  }
+}
+
+function setProcessStatus(electronProcess: ElectronProcess, status: ElectronProcess['status']): void {
+  electronProcess.status = status;
+  notifyResourcesUpdated(electronProcess.notifier, processResourceUris(electronProcess.id, 'state'));
+}
+
+function addLog(electronProcess: ElectronProcess, entry: LogEntry): void {
+  entry.seq = ++electronProcess.logSeq;
+  electronProcess.logs.push(entry);
+  if (electronProcess.logSink) {
+    writeLogEntry(electronProcess.logSink, entry);
+  }
+  logDiagnostic(electronProcess.diagnostics, mcpLevelFor(entry.level), appLogger(electronProcess.id), entry);
+  notifyResourcesUpdated(electronProcess.notifier, processResourceUris(electronProcess.id, 'logs'));
+  // Rotate logs if exceeding maximum size
+  if (electronProcess.logs.length > electronProcess.maxLogEntries) {
+    // Remove enough entries to bring back to maxLogEntries
+    // This ensures the array never exceeds the limit, even with rapid log additions
+    const removeCount = electronProcess.logs.length - electronProcess.maxLogEntries;
+    electronProcess.logs.splice(0, removeCount);
+  }
+}
+
+/**
+ * Spawns (or respawns) the child process for a launched app from its stored launch spec
+ */
+function spawnElectronProcess(state: McpRuntimeState, electronProcess: ElectronProcess): void {
+  const { id, launch } = electronProcess;
+  if (!launch) {
+    throw new Error(`Process ${id} has no launch configuration`);
+  }
+
+  const electronProc = spawn(launch.command, launch.args, {
+    stdio: ['pipe', 'pipe', 'pipe'],
+    // Own process group, so GPU/renderer/utility children can be signalled together
+    detached: process.platform !== 'win32',
+    cwd: launch.cwd,
+    env: launch.env
+  });
+
+  electronProcess.process = electronProc;
+  electronProcess.pid = electronProc.pid;
+  setProcessStatus(electronProcess, 'running');
+  electronProcess.spawnTime = new Date();
+  if (launch.discoverDebugPort) {
+    electronProcess.debugPort = undefined;
+  }
   
-  const addLog = (log: string) => {
-    electronProcess.logs.push(log);
-    // Rotate logs if exceeding maximum size
-    if (electronProcess.logs.length > MAX_LOG_ENTRIES) {
-      // Remove enough entries to bring back to MAX_LOG_ENTRIES
-      // This ensures the array never exceeds the limit, even with rapid log additions
-      const removeCount = electronProcess.logs.length - MAX_LOG_ENTRIES;
-      electronProcess.logs.splice(0, removeCount);
+  // Capture stdout and stderr line by line; chunks can end mid-line
+  const captureLines = (stream: 'stdout' | 'stderr', lines: string[]) => {
+    for (const line of lines) {
+      if (line.trim() === '') {
+        continue;
+      }
+      addLog(electronProcess, createLogEntry(stream, line));
+      if (stream === 'stderr' && launch.discoverDebugPort && !electronProcess.debugPort) {
+        electronProcess.debugPort = parseDevToolsListeningLine(line);
+      }
     }
   };
-  
+  const stdoutLines = createLineSplitter();
+  const stderrLines = createLineSplitter();
+
   electronProc.stdout.on('data', (data: Buffer) => {
     const log = data.toString();
-    addLog(log);
-    // Log to console instead of sending notifications
-    console.log(`[Electron ${id}] ${log}`);
+    captureLines('stdout', splitLines(stdoutLines, log));
   });
+  electronProc.stdout.on('end', () => captureLines('stdout', flushLines(stdoutLines)));
   
   electronProc.stderr.on('data', (data: Buffer) => {
     const log = data.toString();
-    addLog(log);
-    // Log to console instead of sending notifications
-    console.error(`[Electron ${id}] ${log}`);
+    captureLines('stderr', splitLines(stderrLines, log));
+  });
+  electronProc.stderr.on('end', () => captureLines('stderr', flushLines(stderrLines)));
+
+  // A binary that can't be executed never emits 'exit'
+  electronProc.on('error', (err: Error) => {
+    addLog(electronProcess, createLogEntry('server', `Failed to run ${launch.command}: ${err.message}`));
+    logDiagnostic(electronProcess.diagnostics, 'error', SERVER_LOGGER, `[Electron ${id}] Failed to run ${launch.command}`, err);
+    if (electronProc.pid === undefined) {
+      handleElectronExit(state, electronProcess, electronProc, null, null);
+    }
   });
   
   // Handle process exit
-  electronProc.on('exit', (code: number | null) => {
-    electronProcess.status = code === 0 ? 'stopped' : 'crashed';
-    console.info(`[Electron ${id}] Process exited with code ${code}`);
-    
-    // Clean up CDP client if it exists
-    if (electronProcess.cdpClient) {
-      try {
-        electronProcess.cdpClient.close();
-      } catch (err) {
-        console.error(`[Electron ${id}] Error closing CDP client:`, err);
-      }
-      electronProcess.cdpClient = undefined;
-    }
-    
-    // Remove process from map on exit
-    state.electronProcesses.delete(id);
+  electronProc.on('exit', (code: number | null, signal: NodeJS.Signals | null) => {
+    handleElectronExit(state, electronProcess, electronProc, code, signal);
   });
+}
+
+/**
+ * Records the exit and lets the restart policy decide what happens next.
+ * Crashed apps that won't be restarted stay listed so the crash can be inspected.
+ */
+function handleElectronExit(state: McpRuntimeState, electronProcess: ElectronProcess, child: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+  const { id } = electronProcess;
+  // Ignore late events from a child that has already been replaced
+  if (electronProcess.process !== child || electronProcess.status !== 'running') {
+    return;
+  }
+
+  const crashed = !electronProcess.stopRequested && code !== 0;
+  setProcessStatus(electronProcess, crashed ? 'crashed' : 'stopped');
+  logDiagnostic(electronProcess.diagnostics, 'info', SERVER_LOGGER, `[Electron ${id}] Process exited with code ${code}${signal ? ` (${signal})` : ''}`);
   
-  state.electronProcesses.set(id, electronProcess);
+  // Clean up CDP sessions
+  closeAllSessions(electronProcess.cdpSessions);
+
+  if (crashed) {
+    recordCrash(electronProcess.crashes, {
+      time: new Date(),
+      exitCode: code,
+      signal,
+      uptimeMs: Date.now() - (electronProcess.spawnTime ?? electronProcess.startTime).getTime(),
+      restartCount: electronProcess.restartCount,
+      lastLogLines: tailLogLines(electronProcess.logs)
+    });
+  }
+
+  const supervisor = electronProcess.supervisor ?? DEFAULT_SUPERVISOR_OPTIONS;
+  if (shouldRestart(supervisor, crashed, electronProcess.restartCount, !!electronProcess.stopRequested)) {
+    const delay = restartDelay(supervisor, electronProcess.restartCount);
+    logDiagnostic(electronProcess.diagnostics, 'info', SERVER_LOGGER, `[Electron ${id}] Restarting in ${delay}ms (${supervisor.policy} policy)`);
+    setProcessStatus(electronProcess, 'restarting');
+    electronProcess.restartTimer = setTimeout(() => void restartElectronProcess(state, electronProcess), delay);
+    return;
+  }
+
+  // Apps stopped on request are either being removed by electron_stop or about to be relaunched
+  if (!electronProcess.stopRequested) {
+    stopMetricsSampler(electronProcess);
+    stopTargetWatcher(electronProcess);
+    if (electronProcess.logSink) {
+      closeLogSink(electronProcess.logSink);
+    }
+  }
   
-  // Wait for the app to start and initialize the debugging port with timeout
+  // Remove cleanly exited processes from map; electron_stop does that itself for processes it stops
+  if (!crashed && !electronProcess.stopRequested) {
+    disposeProfile(electronProcess);
+    archiveElectronProcess(state, electronProcess, 'stopped', { exitCode: code, signal });
+    state.electronProcesses.delete(id);
+    notifyResourceListChanged(state.notifier);
+  }
+}
+
+/**
+ * Deletes the app's temporary profile once it is no longer running, unless asked to keep it
+ */
+function disposeProfile(electronProcess: ElectronProcess): void {
+  const { profile } = electronProcess;
+  if (profile?.temporary && !profile.keep && !profile.deleted) {
+    profile.deleted = removeTemporaryProfile(profile.userDataDir);
+  }
+}
+
+/**
+ * Keeps a post-mortem record of a process that is about to be forgotten
+ */
+function archiveElectronProcess(
+  state: McpRuntimeState,
+  electronProcess: ElectronProcess,
+  finalStatus: FinalStatus,
+  exit: { exitCode: number | null; signal: string | null; method?: string }
+): void {
+  addHistoryEntry(state.history, {
+    id: electronProcess.id,
+    name: electronProcess.name,
+    mode: electronProcess.mode,
+    finalStatus,
+    pid: electronProcess.pid,
+    host: electronProcess.host,
+    debugPort: electronProcess.debugPort,
+    appPath: electronProcess.appPath,
+    executablePath: electronProcess.executablePath,
+    startTime: electronProcess.startTime,
+    endTime: new Date(),
+    exitCode: exit.exitCode,
+    signal: exit.signal,
+    exitMethod: exit.method,
+    restartCount: electronProcess.restartCount,
+    crashes: electronProcess.crashes,
+    targetsSeen: Array.from(electronProcess.targetsSeen.values()),
+    logs: electronProcess.logs
+  });
+}
+
+async function restartElectronProcess(state: McpRuntimeState, electronProcess: ElectronProcess): Promise<void> {
+  electronProcess.restartTimer = undefined;
+  if (electronProcess.stopRequested || state.electronProcesses.get(electronProcess.id) !== electronProcess) {
+    return;
+  }
+
+  electronProcess.restartCount++;
+  spawnElectronProcess(state, electronProcess);
+
+  if (await waitForDebugger(electronProcess)) {
+    await updateVersionInfo(electronProcess);
+  } else {
+    logDiagnostic(electronProcess.diagnostics, 'warning', SERVER_LOGGER, `[Electron ${electronProcess.id}] Could not reconnect to CDP after restart`);
+  }
+}
+
+/**
+ * Falls back to DevToolsActivePort when the port chosen by Chromium wasn't seen on stderr
+ */
+function discoverDebugPort(electronProcess: ElectronProcess): void {
+  const { launch } = electronProcess;
+  if (electronProcess.debugPort || !launch?.discoverDebugPort || !launch.userDataDir || !electronProcess.spawnTime) {
+    return;
+  }
+  electronProcess.debugPort = readDevToolsActivePort(path.resolve(launch.cwd ?? process.cwd(), launch.userDataDir), electronProcess.spawnTime);
+}
+
+/**
+ * Waits for the app to start and initialize the debugging port with timeout
+ */
+async function waitForDebugger(electronProcess: ElectronProcess): Promise<boolean> {
+  const startupTimeout = electronProcess.launch?.startupTimeout ?? 30000;
   const startTime = Date.now();
-  let connected = false;
   
-  while (Date.now() - startTime < startupTimeout) {
+  while (Date.now() - startTime < startupTimeout && electronProcess.status === 'running') {
+    discoverDebugPort(electronProcess);
     try {
-      await updateCDPTargets(electronProcess);
-      connected = true;
-      break;
+      if (electronProcess.launch?.waitForInspector) {
+        await updateMainProcessTarget(electronProcess);
+      } else {
+        await updateCDPTargets(electronProcess, 'debug');
+      }
+      return true;
     } catch (err) {
       // Port not ready yet, wait a bit and retry
       await new Promise(resolve => setTimeout(resolve, 500));
     }
   }
   
-  if (!connected) {
-    console.warn(`[Electron ${id}] Could not connect to CDP within ${startupTimeout}ms timeout`);
+  return false;
+}
+
+/**
+ * Attaches to an Electron app that is already running with --remote-debugging-port
+ */
+async function attachToElectronApp(state: McpRuntimeState, host: string, port: number, name?: string): Promise<ElectronProcess> {
+  for (const existing of state.electronProcesses.values()) {
+    if (existing.host === host && existing.debugPort === port) {
+      throw new Error(`Already debugging ${host}:${port} as process ${existing.id}`);
+    }
   }
-  
+
+  const endpoint = `http://${host}:${port}`;
+  let version: CDPVersionInfo;
+  try {
+    version = await fetchVersionInfo(endpoint);
+  } catch (error) {
+    throw new Error(`No remote debugging endpoint at ${endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const id = `electron-attached-${Date.now()}`;
+  const logSettings = getLogSettings();
+  const electronProcess: ElectronProcess = {
+    id,
+    mode: 'attached',
+    name: name || version.Browser || endpoint,
+    status: 'running',
+    host,
+    debugPort: port,
+    startTime: new Date(),
+    logs: [],
+    logSeq: 0,
+    maxLogEntries: logSettings.maxEntries,
+    diagnostics: state.diagnostics,
+    notifier: state.notifier,
+    version,
+    restartCount: 0,
+    crashes: [],
+    cdpSessions: createCDPSessionPool(),
+    protocols: new Map<string, ProtocolDescriptor>(),
+    cdpEvents: createCDPEventLog(),
+    targetEvents: [],
+    targetsSeen: new Map<string, SeenTarget>(),
+    consoleWatermarks: new Map<string, ConsoleWatermark>(),
+    unreachablePolls: 0
+  };
+
+  await updateCDPTargets(electronProcess);
+  // Not before the app has listed its targets, so a failed attach leaves no empty archive behind
+  electronProcess.logSink = logSettings.archive ? createLogSink(logSettings.archive, id) : undefined;
+  state.electronProcesses.set(id, electronProcess);
+  notifyResourceListChanged(state.notifier);
+  startTargetWatcher(state, electronProcess);
+
   return electronProcess;
 }
 
-function stopElectronApp(state: McpRuntimeState, id: string): boolean {
+/**
+ * Detaches from an attached app whose debug port stopped answering, as
+ * electron_stop would, instead of polling and reconnecting to it forever
+ */
+function handleAttachedAppGone(state: McpRuntimeState, electronProcess: ElectronProcess): void {
+  if (state.electronProcesses.get(electronProcess.id) !== electronProcess) {
+    return;
+  }
+
+  logDiagnostic(electronProcess.diagnostics, 'info', SERVER_LOGGER, `[Electron ${electronProcess.id}] ${getDebuggerEndpoint(electronProcess)} stopped answering; detaching`);
+  closeAllSessions(electronProcess.cdpSessions);
+  setProcessStatus(electronProcess, 'stopped');
+  stopMetricsSampler(electronProcess);
+  stopTargetWatcher(electronProcess);
+  if (electronProcess.logSink) {
+    closeLogSink(electronProcess.logSink);
+  }
+  archiveElectronProcess(state, electronProcess, 'detached', { exitCode: null, signal: null });
+  state.electronProcesses.delete(electronProcess.id);
+  notifyResourceListChanged(state.notifier);
+}
+
+/**
+ * Asks the app to quit by itself: app.quit() through the main process
+ * inspector if we have one, otherwise Browser.close over the browser target
+ */
+async function requestAppQuit(electronProcess: ElectronProcess): Promise<void> {
+  if (electronProcess.inspectPort) {
+    await executeCDPCommand(electronProcess, MAIN_PROCESS_TARGET_ID, 'Runtime', 'evaluate', {
+      expression: wrapMainProcessExpression('app.quit()'),
+      includeCommandLineAPI: true
+    });
+    return;
+  }
+
+  if (!electronProcess.version?.webSocketDebuggerUrl) {
+    await updateVersionInfo(electronProcess);
+  }
+  const browserUrl = electronProcess.version?.webSocketDebuggerUrl;
+  if (!browserUrl) {
+    throw new Error('No browser target to send Browser.close to');
+  }
+
+  const client = await CDP({ target: browserUrl });
+  try {
+    await client.send('Browser.close');
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Stops a launched app (quit, then SIGTERM, then SIGKILL on its process group)
+ * or detaches from an attached one. Returns null if the process is unknown.
+ */
+async function stopElectronApp(state: McpRuntimeState, id: string, gracePeriodMs: number = DEFAULT_GRACE_PERIOD_MS): Promise<ExitResult | 'detached' | null> {
   const electronProcess = state.electronProcesses.get(id);
   if (!electronProcess) {
-    return false;
+    return null;
   }
-  
-  // Close CDP client if it exists
-  if (electronProcess.cdpClient) {
-    try {
-      electronProcess.cdpClient.close();
-    } catch (err) {
-      console.error(`[Electron ${id}] Error closing CDP client:`, err);
-    }
-    electronProcess.cdpClient = undefined;
+
+  // An app waiting out its restart backoff crashed too, unless the 'always' policy restarts a clean exit
+  const wasCrashed = electronProcess.status === 'crashed' ||
+    (electronProcess.status === 'restarting' && electronProcess.process?.exitCode !== 0);
+
+  // Attached apps are owned by someone else, so only detach from them
+  let exit: ExitResult | 'detached' = 'detached';
+  if (electronProcess.process) {
+    electronProcess.stopRequested = true;
+    // A crashed app may be waiting out its restart backoff
+    clearTimeout(electronProcess.restartTimer);
+    electronProcess.restartTimer = undefined;
+    exit = await shutdownProcess(electronProcess.process, {
+      gracePeriodMs,
+      requestQuit: () => requestAppQuit(electronProcess)
+    });
   }
   
-  electronProcess.process.kill();
-  electronProcess.status = 'stopped';
+  // Close CDP sessions
+  closeAllSessions(electronProcess.cdpSessions);
+  setProcessStatus(electronProcess, 'stopped');
+  stopMetricsSampler(electronProcess);
+  stopTargetWatcher(electronProcess);
+  if (electronProcess.logSink) {
+    closeLogSink(electronProcess.logSink);
+  }
+  disposeProfile(electronProcess);
   
-  // Remove process from map
+  // Remove process from map, keeping its post-mortem
+  if (exit === 'detached') {
+    archiveElectronProcess(state, electronProcess, 'detached', { exitCode: null, signal: null });
+  } else {
+    archiveElectronProcess(state, electronProcess, wasCrashed ? 'crashed' : 'stopped', exit);
+  }
   state.electronProcesses.delete(id);
+  notifyResourceListChanged(state.notifier);
   
-  return true;
+  return exit;
+}
+
+/**
+ * Stops every managed process, e.g. when the server itself shuts down
+ */
+async function stopAllElectronApps(state: McpRuntimeState, gracePeriodMs: number): Promise<void> {
+  const ids = Array.from(state.electronProcesses.keys());
+  await Promise.all(ids.map(async (id) => {
+    try {
+      await stopElectronApp(state, id, gracePeriodMs);
+    } catch (err) {
+      logDiagnostic(state.diagnostics, 'error', SERVER_LOGGER, `[Electron ${id}] Error stopping process during shutdown`, err);
+    }
+  }));
+}
+
+/**
+ * Last resort from the process 'exit' handler, where nothing async can run
+ */
+function killAllElectronAppsSync(state: McpRuntimeState): void {
+  for (const electronProcess of state.electronProcesses.values()) {
+    if (electronProcess.process?.pid !== undefined && electronProcess.process.exitCode === null) {
+      signalProcessTree(electronProcess.process.pid, 'SIGKILL');
+    }
+  }
 }
 
 export async function getElectronDebugInfo(id: string, state?: McpRuntimeState): Promise<ElectronDebugInfo | null> {
@@ -289,10 +1116,22 @@ export async function getElectronDebugInfo(id: string, state?: McpRuntimeState):
   try {
     await updateCDPTargets(electronProcess);
   } catch (err) {
-    console.warn(`[Electron ${id}] Could not update CDP targets:`, err);
+    logDiagnostic(electronProcess.diagnostics, 'warning', SERVER_LOGGER, `[Electron ${id}] Could not update CDP targets`, err);
   }
   
-  // Convert CDP targets to WebContents info
+  if (electronProcess.inspectPort) {
+    try {
+      await updateMainProcessTarget(electronProcess);
+    } catch (err) {
+      logDiagnostic(electronProcess.diagnostics, 'warning', SERVER_LOGGER, `[Electron ${id}] Could not reach main process inspector`, err);
+    }
+  }
+
+  if (!electronProcess.version) {
+    await updateVersionInfo(electronProcess);
+  }
+
+  // Convert CDP targets to WebContents info
   const webContents: ElectronWebContentsInfo[] = electronProcess.targets?.map((target, index) => ({
     id: index + 1,
     url: target.url,
@@ -303,95 +1142,402 @@ export async function getElectronDebugInfo(id: string, state?: McpRuntimeState):
   })) || [
     {
       id: 1,
-      url: 'file://' + electronProcess.appPath,
+      url: electronProcess.appPath ? 'file://' + electronProcess.appPath : getDebuggerEndpoint(electronProcess),
       title: electronProcess.name,
       debuggable: true,
       debugPort: electronProcess.debugPort
     }
   ];
   
-  // Try to get real metrics from CDP, fallback to unavailable
-  let mainCpuUsage: number | 'unavailable' = 'unavailable';
-  let mainMemoryUsage: number | 'unavailable' = 'unavailable';
-  let rendererCpuUsage: number | 'unavailable' = 'unavailable';
-  let rendererMemoryUsage: number | 'unavailable' = 'unavailable';
+  const { processes, unmappedTargets } = await collectProcessMetrics(electronProcess);
+
+  return {
+    versions: electronProcess.version ? parseElectronVersions(electronProcess.version) : undefined,
+    webContents,
+    processes,
+    unmappedTargets: unmappedTargets.length > 0 ? unmappedTargets : undefined,
+    mainProcess: electronProcess.inspectPort ? {
+      inspectPort: electronProcess.inspectPort,
+      inspectMode: electronProcess.inspectMode,
+      target: electronProcess.mainTarget
+    } : undefined,
+    cdpSessions: describeSessions(electronProcess.cdpSessions),
+    targetEvents: electronProcess.targetEvents,
+    supervisor: electronProcess.supervisor ? {
+      ...electronProcess.supervisor,
+      restartCount: electronProcess.restartCount,
+      crashes: electronProcess.crashes
+    } : undefined,
+    profile: electronProcess.profile
+  };
+}
+
+// Window for CPU% when there is no recent earlier sample to compare with
+const CPU_SAMPLE_WINDOW_MS = 250;
+const CPU_SAMPLE_MAX_AGE_MS = 60000;
+
+// Target types that run in a renderer process
+const RENDERER_TARGET_TYPES = new Set(['page', 'iframe', 'webview', 'background_page']);
+
+/**
+ * Lists the app's processes through the browser target. Unlike /proc this works
+ * on every platform and for apps attached to on other hosts.
+ */
+async function fetchSystemProcessInfo(electronProcess: ElectronProcess): Promise<ProcessSample[]> {
+  if (!electronProcess.version?.webSocketDebuggerUrl) {
+    await updateVersionInfo(electronProcess);
+  }
+  const browserUrl = electronProcess.version?.webSocketDebuggerUrl;
+  if (!browserUrl) {
+    return [];
+  }
+
+  const client = await CDP({ target: browserUrl });
+  try {
+    const { processInfo } = await client.send('SystemInfo.getProcessInfo') as {
+      processInfo: Array<{ type: string; id: number; cpuTime: number }>;
+    };
+    return processInfo.map(info => ({ pid: info.id, type: processTypeFromSystemInfo(info.type), cpuSeconds: info.cpuTime }));
+  } finally {
+    client.close();
+  }
+}
+
+async function sampleProcessTree(electronProcess: ElectronProcess): Promise<ProcessTreeSample> {
+  let systemInfo: ProcessSample[] = [];
+  try {
+    systemInfo = await fetchSystemProcessInfo(electronProcess);
+  } catch (err) {
+    logDiagnostic(electronProcess.diagnostics, 'warning', SERVER_LOGGER, `[Electron ${electronProcess.id}] SystemInfo.getProcessInfo failed`, err);
+  }
 
-  if (electronProcess.cdpClient) {
+  // /proc only describes apps on this machine. Start from the browser process when
+  // Chromium names it, which skips launcher wrappers such as node_modules/.bin/electron.
+  const isLocal = ['localhost', '127.0.0.1', '::1'].includes(electronProcess.host);
+  const rootPid = systemInfo.find(p => p.type === 'browser')?.pid ?? electronProcess.pid;
+  const procSamples = isLocal && rootPid !== undefined ? readProcessTree(rootPid) : [];
+
+  return { time: Date.now(), processes: mergeProcessSamples(procSamples, systemInfo) };
+}
+
+/**
+ * Finds which renderer process hosts each target. With a single renderer that is
+ * certain; otherwise it takes the main process's webContents list, through the inspector.
+ */
+async function mapTargetsToProcesses(electronProcess: ElectronProcess, targets: CDPTarget[], rendererPids: number[]): Promise<Map<string, number>> {
+  if (rendererPids.length === 1) {
+    return new Map(targets.map(t => [t.id, rendererPids[0]]));
+  }
+
+  if (electronProcess.inspectPort && targets.length > 0) {
     try {
-      // Try to get performance metrics from CDP Performance domain
-      const performanceMetrics = await electronProcess.cdpClient.send('Performance.getMetrics') as unknown;
-      if (performanceMetrics && typeof performanceMetrics === 'object' && 'metrics' in performanceMetrics) {
-        const metrics = (performanceMetrics as { metrics: Array<{ name: string; value: number }> }).metrics;
-        const cpuMetric = metrics.find(m => m.name === 'CPUUsage');
-        const memoryMetric = metrics.find(m => m.name === 'JSHeapUsedSize');
-        
-        if (cpuMetric) {
-          mainCpuUsage = cpuMetric.value;
-          rendererCpuUsage = cpuMetric.value * 0.5; // Estimate renderer as half
-        }
-        if (memoryMetric) {
-          mainMemoryUsage = memoryMetric.value;
-          rendererMemoryUsage = memoryMetric.value * 0.5; // Estimate renderer as half
-        }
+      const response = await executeCDPCommand(electronProcess, MAIN_PROCESS_TARGET_ID, 'Runtime', 'evaluate', {
+        expression: wrapMainProcessExpression(
+          'electron.webContents.getAllWebContents().map(wc => ({ pid: wc.getOSProcessId(), url: wc.getURL(), title: wc.getTitle() }))'
+        ),
+        returnByValue: true,
+        includeCommandLineAPI: true
+      }) as { result?: { value?: unknown } };
+      if (Array.isArray(response.result?.value)) {
+        return matchTargetsToWebContents(targets, response.result.value as WebContentsProcess[]);
       }
     } catch (err) {
-      // CDP metrics not available, keep as 'unavailable'
-      console.warn(`[Electron ${id}] Could not get performance metrics:`, err);
+      logDiagnostic(electronProcess.diagnostics, 'warning', SERVER_LOGGER, `[Electron ${electronProcess.id}] Could not list webContents`, err);
+    }
+  }
+
+  return new Map();
+}
+
+async function readHeapUsage(electronProcess: ElectronProcess, targetId: string): Promise<{ usedSize: number; totalSize: number } | undefined> {
+  try {
+    return await executeCDPCommand(electronProcess, targetId, 'Runtime', 'getHeapUsage') as { usedSize: number; totalSize: number };
+  } catch {
+    // Target busy, paused or gone
+    return undefined;
+  }
+}
+
+/**
+ * RSS, CPU% and JS heap for every process of the app, with the targets each renderer hosts
+ */
+async function collectProcessMetrics(electronProcess: ElectronProcess): Promise<{ processes: ProcessMetrics[]; unmappedTargets: string[] }> {
+  let previous = electronProcess.lastProcessSample;
+  if (!previous || Date.now() - previous.time > CPU_SAMPLE_MAX_AGE_MS) {
+    previous = await sampleProcessTree(electronProcess);
+    await new Promise(resolve => setTimeout(resolve, CPU_SAMPLE_WINDOW_MS));
+  }
+  const current = await sampleProcessTree(electronProcess);
+  electronProcess.lastProcessSample = current;
+  const cpuPercents = computeCpuPercents(previous, current);
+
+  const rendererTargets = (electronProcess.targets ?? []).filter(t => RENDERER_TARGET_TYPES.has(t.type));
+  const rendererPids = current.processes.filter(p => p.type === 'renderer').map(p => p.pid);
+  const targetPids = await mapTargetsToProcesses(electronProcess, rendererTargets, rendererPids);
+
+  const processes: ProcessMetrics[] = [];
+  for (const sample of current.processes) {
+    const targetIds = rendererTargets.filter(t => targetPids.get(t.id) === sample.pid).map(t => t.id);
+    const metrics: ProcessMetrics = {
+      pid: sample.pid,
+      type: sample.type,
+      cpuPercent: cpuPercents.get(sample.pid),
+      rssBytes: sample.rssBytes,
+      targetIds
+    };
+
+    // Frames in one renderer share its V8 heap, so any of its targets can report it
+    let heap: { usedSize: number; totalSize: number } | undefined;
+    if (sample.type === 'renderer' && targetIds.length > 0) {
+      heap = await readHeapUsage(electronProcess, targetIds[0]);
+    } else if (sample.type === 'browser' && electronProcess.inspectPort) {
+      heap = await readHeapUsage(electronProcess, MAIN_PROCESS_TARGET_ID);
     }
+    if (heap) {
+      metrics.jsHeapUsedBytes = heap.usedSize;
+      metrics.jsHeapTotalBytes = heap.totalSize;
+    }
+    processes.push(metrics);
   }
 
   return {
-    webContents,
-    processes: {
-      main: {
-        pid: electronProcess.pid || 0,
-        cpuUsage: typeof mainCpuUsage === 'number' ? mainCpuUsage : 0,
-        memoryUsage: typeof mainMemoryUsage === 'number' ? mainMemoryUsage : 0,
-        status: 'running'
-      },
-      renderers: [
-        {
-          pid: (electronProcess.pid || 0) + 1,
-          cpuUsage: typeof rendererCpuUsage === 'number' ? rendererCpuUsage : 0,
-          memoryUsage: typeof rendererMemoryUsage === 'number' ? rendererMemoryUsage : 0,
-          status: 'running'
-        }
-      ]
+    processes,
+    unmappedTargets: rendererTargets.filter(t => !targetPids.has(t.id)).map(t => t.id)
+  };
+}
+
+async function readPerformanceMetrics(electronProcess: ElectronProcess, targetId: string): Promise<Record<string, number> | undefined> {
+  try {
+    // Enabling again is harmless, and the session may have been reopened since the last sample
+    await executeCDPCommand(electronProcess, targetId, 'Performance', 'enable');
+    const { metrics } = await executeCDPCommand(electronProcess, targetId, 'Performance', 'getMetrics') as {
+      metrics: Array<{ name: string; value: number }>;
+    };
+    return Object.fromEntries(metrics.filter(m => TRACKED_TARGET_METRICS.includes(m.name)).map(m => [m.name, m.value]));
+  } catch {
+    // Target busy, paused or gone
+    return undefined;
+  }
+}
+
+/**
+ * One point of the metrics series: OS stats for every process and Performance metrics for every page
+ */
+async function collectMetricsSample(electronProcess: ElectronProcess): Promise<MetricsSample> {
+  const previous = electronProcess.lastProcessSample;
+  const current = await sampleProcessTree(electronProcess);
+  electronProcess.lastProcessSample = current;
+  const cpuPercents = previous ? computeCpuPercents(previous, current) : new Map<number, number>();
+
+  try {
+    await updateCDPTargets(electronProcess);
+  } catch (err) {
+    logDiagnostic(electronProcess.diagnostics, 'warning', SERVER_LOGGER, `[Electron ${electronProcess.id}] Could not update CDP targets`, err);
+  }
+
+  const targets: Record<string, Record<string, number>> = {};
+  for (const target of (electronProcess.targets ?? []).filter(t => t.type === 'page')) {
+    const metrics = await readPerformanceMetrics(electronProcess, target.id);
+    if (metrics) {
+      targets[target.id] = metrics;
     }
+  }
+
+  return {
+    time: new Date(current.time),
+    processes: current.processes.map(p => ({
+      pid: p.pid,
+      type: p.type,
+      cpuPercent: cpuPercents.get(p.pid),
+      rssBytes: p.rssBytes
+    })),
+    targets
+  };
+}
+
+/**
+ * Samples metrics every intervalMs until stopped, replacing any sampler already
+ * running but keeping its samples. Each sample is scheduled once the previous
+ * one is done, so a slow app never has samples piling up.
+ */
+function startMetricsSampler(electronProcess: ElectronProcess, intervalMs: number, capacity: number): MetricsSampler {
+  const previous = electronProcess.metricsSampler;
+  const samples = previous ? resizeRing(previous.samples, capacity) : createRingBuffer<MetricsSample>(capacity);
+  stopMetricsSampler(electronProcess);
+  const sampler: MetricsSampler = { intervalMs, samples, startedAt: new Date() };
+  electronProcess.metricsSampler = sampler;
+  if (!previous) {
+    notifyResourceListChanged(electronProcess.notifier);
+  }
+
+  const sample = async () => {
+    // Nothing to sample while the app is down or restarting
+    if (electronProcess.status === 'running') {
+      try {
+        pushToRing(sampler.samples, await collectMetricsSample(electronProcess));
+        sampler.lastError = undefined;
+      } catch (err) {
+        sampler.lastError = err instanceof Error ? err.message : String(err);
+      }
+    }
+    if (!sampler.stoppedAt) {
+      sampler.timer = setTimeout(() => void sample(), intervalMs);
+      // Sampling alone shouldn't keep the server running
+      sampler.timer.unref();
+    }
+  };
+  void sample();
+
+  return sampler;
+}
+
+function stopMetricsSampler(electronProcess: ElectronProcess): void {
+  const sampler = electronProcess.metricsSampler;
+  if (sampler && !sampler.stoppedAt) {
+    clearTimeout(sampler.timer);
+    sampler.timer = undefined;
+    sampler.stoppedAt = new Date();
+  }
+}
+
+function describeMetricsSampler(electronProcess: ElectronProcess, sampler: MetricsSampler) {
+  const samples = ringToArray(sampler.samples);
+  return {
+    processId: electronProcess.id,
+    sampling: !sampler.stoppedAt,
+    intervalMs: sampler.intervalMs,
+    capacity: sampler.samples.capacity,
+    startedAt: sampler.startedAt,
+    stoppedAt: sampler.stoppedAt,
+    lastError: sampler.lastError,
+    sampleCount: samples.length,
+    summary: summarizeSamples(samples),
+    samples
   };
 }
 
 // Add CDP-related functions
 
 /**
- * Updates the CDP targets for an Electron process
+ * Base URL of the remote debugging HTTP endpoint for an Electron process
+ */
+function getDebuggerEndpoint(electronProcess: ElectronProcess): string {
+  return `http://${electronProcess.host}:${electronProcess.debugPort}`;
+}
+
+// What a target looks like in the process and targets resources; a navigation changes it
+function describeTargets(targets: CDPTarget[] | undefined): string {
+  return JSON.stringify((targets ?? []).map(t => [t.id, t.type, t.title, t.url]));
+}
+
+/**
+ * Updates the CDP targets for an Electron process. Polls that expect to fail
+ * until the app is up report failures at a lower level.
  */
-async function updateCDPTargets(electronProcess: ElectronProcess): Promise<CDPTarget[]> {
+async function updateCDPTargets(electronProcess: ElectronProcess, failureLevel: LoggingLevel = 'error'): Promise<CDPTarget[]> {
   if (!electronProcess.debugPort) {
     throw new Error('No debug port available for this Electron process');
   }
   
   try {
     // Get the list of available targets from the Chrome DevTools Protocol
-    const response = await fetch(`http://localhost:${electronProcess.debugPort}/json/list`);
+    const response = await fetch(`${getDebuggerEndpoint(electronProcess)}/json/list`);
     if (!response.ok) {
       throw new Error(`Failed to get targets: ${response.statusText}`);
     }
     
     const targets = await response.json() as CDPTarget[];
+    const events = diffTargets(electronProcess.targets, targets);
+    recordTargetEvents(electronProcess.targetEvents, events);
+    if (events.length > 0) {
+      // Each target has its own CDP resource
+      notifyResourceListChanged(electronProcess.notifier);
+    }
+    if (events.length > 0 || describeTargets(electronProcess.targets) !== describeTargets(targets)) {
+      notifyResourcesUpdated(electronProcess.notifier, processResourceUris(electronProcess.id, 'state'));
+    }
     electronProcess.targets = targets;
     electronProcess.lastTargetUpdate = new Date();
+    recordTargetsSeen(electronProcess.targetsSeen, targets, electronProcess.lastTargetUpdate);
+
+    // Sessions for targets that went away can never be used again
+    const liveTargetIds = targets.map(t => t.id);
+    if (electronProcess.inspectPort) {
+      liveTargetIds.push(MAIN_PROCESS_TARGET_ID);
+    }
+    pruneSessions(electronProcess.cdpSessions, liveTargetIds);
+    capturePageLogs(electronProcess, targets);
     return targets;
   } catch (error) {
-    console.error(`Error getting CDP targets for process ${electronProcess.id}:`, error);
+    logDiagnostic(electronProcess.diagnostics, failureLevel, SERVER_LOGGER, `Error getting CDP targets for process ${electronProcess.id}`, error);
     throw error;
   }
 }
 
+/**
+ * Reads /json/version to learn which Electron/Chromium build is running.
+ * Packaged apps give no other hint, so this is best-effort and never throws.
+ */
+async function updateVersionInfo(electronProcess: ElectronProcess): Promise<void> {
+  if (!electronProcess.debugPort) {
+    return;
+  }
+
+  try {
+    electronProcess.version = await fetchVersionInfo(getDebuggerEndpoint(electronProcess));
+  } catch (err) {
+    logDiagnostic(electronProcess.diagnostics, 'warning', SERVER_LOGGER, `[Electron ${electronProcess.id}] Could not read version info`, err);
+  }
+}
+
+/**
+ * Refreshes the main process target from the Node inspector's /json/list
+ */
+async function updateMainProcessTarget(electronProcess: ElectronProcess): Promise<CDPTarget> {
+  if (!electronProcess.inspectPort) {
+    throw new Error(`Process ${electronProcess.id} was not started with main process inspection`);
+  }
+
+  const response = await fetch(`http://${electronProcess.host}:${electronProcess.inspectPort}/json/list`);
+  if (!response.ok) {
+    throw new Error(`Failed to get main process target: ${response.statusText}`);
+  }
+
+  const [inspectorTarget] = await response.json() as CDPTarget[];
+  if (!inspectorTarget) {
+    throw new Error('Node inspector reported no targets');
+  }
+
+  electronProcess.mainTarget = {
+    ...inspectorTarget,
+    id: MAIN_PROCESS_TARGET_ID,
+    title: inspectorTarget.title || 'Electron main process'
+  };
+  return electronProcess.mainTarget;
+}
+
+/**
+ * Connects to the main process through the Node inspector
+ */
+async function connectToMainProcess(electronProcess: ElectronProcess): Promise<CDPClient> {
+  const target = await updateMainProcessTarget(electronProcess);
+  if (!target.webSocketDebuggerUrl) {
+    throw new Error('Node inspector did not report a WebSocket URL');
+  }
+
+  return await CDP({ target: target.webSocketDebuggerUrl });
+}
+
 /**
  * Connects to a specific CDP target
  */
 async function connectToCDPTarget(electronProcess: ElectronProcess, targetId: string): Promise<CDPClient> {
+  if (targetId === MAIN_PROCESS_TARGET_ID) {
+    const client = await connectToMainProcess(electronProcess);
+    await watchCDPEvents(electronProcess, client, targetId);
+    return client;
+  }
+
   if (!electronProcess.debugPort) {
     throw new Error('No debug port available for this Electron process');
   }
@@ -412,40 +1558,348 @@ async function connectToCDPTarget(electronProcess: ElectronProcess, targetId: st
     // Connect to the target using CDP
     const client = await CDP({
       target: targetId,
+      host: electronProcess.host,
       port: electronProcess.debugPort
     });
-    
-    // Store the client for later use
-    electronProcess.cdpClient = client;
+
+    // Renderer crashes are only reported over an open session
+    client.on('Inspector.targetCrashed', () => {
+      recordTargetEvents(electronProcess.targetEvents, [
+        { type: 'crashed', targetId, targetType: target.type, url: target.url, time: new Date() }
+      ]);
+    });
+    client.on('Inspector.targetReloadedAfterCrash', () => {
+      recordTargetEvents(electronProcess.targetEvents, [
+        { type: 'recovered', targetId, targetType: target.type, url: target.url, time: new Date() }
+      ]);
+    });
+    try {
+      await client.send('Inspector.enable');
+    } catch {
+      // Not every target type has the Inspector domain
+    }
+
+    if (target.type === 'page') {
+      await subscribeToPageLogs(electronProcess, client, targetId);
+    }
+    await watchCDPEvents(electronProcess, client, targetId);
+
     return client;
   } catch (error) {
-    console.error(`Error connecting to CDP target ${targetId}:`, error);
+    logDiagnostic(electronProcess.diagnostics, 'error', SERVER_LOGGER, `Error connecting to CDP target ${targetId}`, error);
     throw error;
   }
 }
 
 /**
- * Executes a CDP command on a target
+ * Queues the events of a new session that clients subscribed to. A session opened
+ * again after its socket dropped has to have their domains enabled again.
  */
-async function executeCDPCommand(electronProcess: ElectronProcess, targetId: string, domain: string, command: string, params: Record<string, unknown> = {}): Promise<unknown> {
-  let client;
-  
+async function watchCDPEvents(electronProcess: ElectronProcess, client: CDPClient, targetId: string): Promise<void> {
+  client.on('event', (message) => {
+    if (recordCDPEvent(electronProcess.cdpEvents, targetId, message as { method: string; params?: unknown; sessionId?: string })) {
+      notifyResourcesUpdated(electronProcess.notifier, [eventsResourceUri(electronProcess.id, targetId)]);
+    }
+  });
+  await enableEventDomains(client, eventDomains(targetSubscriptions(electronProcess.cdpEvents, targetId).flatMap(s => s.events)));
+}
+
+// Domains enabled for event subscriptions on each session; enabling twice can replay events
+const enabledEventDomains = new WeakMap<CDPClient, Set<string>>();
+
+/**
+ * Sends Domain.enable for each domain not enabled yet; returns why it failed for those that refused
+ */
+async function enableEventDomains(client: CDPClient, domains: string[]): Promise<Record<string, string>> {
+  let enabled = enabledEventDomains.get(client);
+  if (!enabled) {
+    enabled = new Set<string>();
+    enabledEventDomains.set(client, enabled);
+  }
+
+  const failed: Record<string, string> = {};
+  for (const domain of domains.filter(d => !enabled.has(d))) {
+    try {
+      await client.send(`${domain}.enable`);
+      enabled.add(domain);
+    } catch (err) {
+      // Some domains send events without being enabled, or are switched on by other commands
+      failed[domain] = err instanceof Error ? err.message : String(err);
+    }
+  }
+  return failed;
+}
+
+/**
+ * Merges a page's console calls, uncaught exceptions and browser messages into the
+ * process log. Enabling Runtime and Log replays earlier messages, so those arriving
+ * before the enable calls return are skipped if a previous session logged them.
+ */
+async function subscribeToPageLogs(electronProcess: ElectronProcess, client: CDPClient, targetId: string): Promise<void> {
+  // Pages navigate, so take the URL the target has when the message arrives
+  const page = (): PageContext => ({ targetId, url: electronProcess.targets?.find(t => t.id === targetId)?.url ?? '' });
+  let replaying = true;
+  const record = (entry: LogEntry) => {
+    const key = `${targetId}:${entry.stream}`;
+    const time = entry.time.getTime();
+    const watermark = electronProcess.consoleWatermarks.get(key);
+    // Past the replay, the page can log the same message twice in a millisecond
+    if (replaying && watermark && (time < watermark.time || (time === watermark.time && watermark.messages.includes(entry.message)))) {
+      return;
+    }
+    if (!watermark || time >= watermark.time) {
+      electronProcess.consoleWatermarks.set(key, {
+        time,
+        messages: watermark?.time === time ? [...watermark.messages, entry.message] : [entry.message]
+      });
+    }
+    addLog(electronProcess, entry);
+  };
+
+  client.on('Runtime.consoleAPICalled', (params) => record(consoleEntry(params as ConsoleAPICalledEvent, page())));
+  client.on('Runtime.exceptionThrown', (params) => record(exceptionEntry(params as ExceptionThrownEvent, page())));
+  client.on('Log.entryAdded', (params) => record(browserLogEntry(params as LogEntryAddedEvent, page())));
   try {
-    // Get or create a CDP client
-    if (electronProcess.cdpClient) {
-      client = electronProcess.cdpClient;
-    } else {
-      client = await connectToCDPTarget(electronProcess, targetId);
+    await client.send('Runtime.enable');
+    await client.send('Log.enable');
+  } catch (err) {
+    logDiagnostic(electronProcess.diagnostics, 'warning', SERVER_LOGGER, `[Electron ${electronProcess.id}] Could not capture console of target ${targetId}`, err);
+  } finally {
+    replaying = false;
+  }
+}
+
+/**
+ * Opens a session, and with it console capture, for every page that doesn't have one yet
+ */
+function capturePageLogs(electronProcess: ElectronProcess, targets: CDPTarget[]): void {
+  if (electronProcess.status !== 'running') {
+    return;
+  }
+  for (const target of targets) {
+    const session = electronProcess.cdpSessions.sessions.get(target.id);
+    // Targets without a WebSocket URL already have a DevTools client attached elsewhere
+    if (target.type !== 'page' || !target.webSocketDebuggerUrl || (session && !session.stale) || electronProcess.cdpSessions.pending.has(target.id)) {
+      continue;
     }
+    acquireSession(electronProcess.cdpSessions, target.id, (id) => connectToCDPTarget(electronProcess, id)).catch(() => {
+      // Reported by connectToCDPTarget; the next poll tries again
+    });
+  }
+}
+
+// How often the target list is polled, so pages opened later get their console captured too
+const TARGET_POLL_INTERVAL_MS = 2000;
+// We learn that an attached app exited only from its port going dead
+const ATTACHED_APP_GONE_AFTER_POLLS = 3;
+
+function startTargetWatcher(state: McpRuntimeState, electronProcess: ElectronProcess): void {
+  stopTargetWatcher(electronProcess);
+  electronProcess.unreachablePolls = 0;
+  electronProcess.targetWatcher = setInterval(() => {
+    // Skip while the app is restarting, or while its port is still unknown
+    if (electronProcess.status === 'running' && electronProcess.debugPort) {
+      updateCDPTargets(electronProcess).then(() => {
+        electronProcess.unreachablePolls = 0;
+      }, (error) => {
+        // Reported by updateCDPTargets
+        electronProcess.unreachablePolls = isEndpointGone(error) ? electronProcess.unreachablePolls + 1 : 0;
+        if (electronProcess.mode === 'attached' && electronProcess.unreachablePolls >= ATTACHED_APP_GONE_AFTER_POLLS) {
+          handleAttachedAppGone(state, electronProcess);
+        }
+      });
+    }
+  }, TARGET_POLL_INTERVAL_MS);
+  electronProcess.targetWatcher.unref();
+}
+
+function stopTargetWatcher(electronProcess: ElectronProcess): void {
+  clearInterval(electronProcess.targetWatcher);
+  electronProcess.targetWatcher = undefined;
+}
+
+/**
+ * Executes a CDP command on a target
+ */
+async function executeCDPCommand(electronProcess: ElectronProcess, targetId: string, domain: string, command: string, params: Record<string, unknown> = {}, sessionId?: string): Promise<unknown> {
+  try {
+    // Get or lazily open the session for this target
+    const client = await acquireSession(electronProcess.cdpSessions, targetId, (id) => connectToCDPTarget(electronProcess, id));
     
-    // Execute the command
-    return await client.send(`${domain}.${command}`, params);
+    // Execute the command, on a session attached through this target's connection if one is given
+    return await client.send(`${domain}.${command}`, params, sessionId);
   } catch (error) {
-    console.error(`Error executing CDP command ${domain}.${command}:`, error);
+    logDiagnostic(electronProcess.diagnostics, 'error', SERVER_LOGGER, `Error executing CDP command ${domain}.${command}`, error);
     throw error;
   }
 }
 
+/**
+ * The protocol a target speaks, as its endpoint describes it. Renderer targets share the
+ * browser's endpoint and the main process has its own, so it is fetched once per endpoint.
+ */
+async function getTargetProtocol(electronProcess: ElectronProcess, targetId: string): Promise<ProtocolDescriptor> {
+  let endpoint: string;
+  if (targetId === MAIN_PROCESS_TARGET_ID) {
+    if (!electronProcess.inspectPort) {
+      throw new Error(`Process ${electronProcess.id} was not started with main process inspection`);
+    }
+    endpoint = `http://${electronProcess.host}:${electronProcess.inspectPort}`;
+  } else {
+    if (!electronProcess.debugPort) {
+      throw new Error('No debug port available for this Electron process');
+    }
+    endpoint = getDebuggerEndpoint(electronProcess);
+  }
+
+  const cached = electronProcess.protocols.get(endpoint);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(`${endpoint}/json/protocol`);
+  if (!response.ok) {
+    throw new Error(`Failed to get protocol: ${response.statusText}`);
+  }
+  const protocol = await response.json();
+  if (!isProtocolDescriptor(protocol)) {
+    throw new Error('/json/protocol did not return a protocol descriptor');
+  }
+  electronProcess.protocols.set(endpoint, protocol);
+  return protocol;
+}
+
+/**
+ * Runs a check against the target's protocol. The request goes unchecked rather than
+ * refused when the endpoint doesn't describe its protocol, and validation says why.
+ */
+async function checkAgainstTargetProtocol<T>(
+  electronProcess: ElectronProcess,
+  targetId: string,
+  check: (protocol: ProtocolDescriptor) => T
+): Promise<{ result?: T; validation: string }> {
+  let protocol: ProtocolDescriptor;
+  try {
+    protocol = await getTargetProtocol(electronProcess, targetId);
+  } catch (err) {
+    return { validation: `skipped: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  return { result: check(protocol), validation: 'passed' };
+}
+
+/**
+ * Domains for a target resource, from the target's own protocol rather than a fixed list
+ */
+async function describeAvailableDomains(electronProcess: ElectronProcess, targetId: string, targetUri: string) {
+  try {
+    const protocol = await getTargetProtocol(electronProcess, targetId);
+    return {
+      availableDomains: protocol.domains.map(d => d.domain),
+      protocol: `${targetUri}/protocol`
+    };
+  } catch (err) {
+    return { protocolError: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Target for commands that don't name one: the first page, or else the main process
+ */
+async function defaultCDPTargetId(electronProcess: ElectronProcess): Promise<string> {
+  if (electronProcess.debugPort) {
+    const targets = await updateCDPTargets(electronProcess);
+    const page = targets.find(t => t.type === 'page');
+    if (page) {
+      return page.id;
+    }
+  }
+  if (electronProcess.inspectPort) {
+    return MAIN_PROCESS_TARGET_ID;
+  }
+  throw new Error(`Process ${electronProcess.id} has no page target; pass targetId`);
+}
+
+/**
+ * The app's userData directory: the one it was launched with, or else the one its main process reports
+ */
+async function resolveUserDataDir(electronProcess: ElectronProcess): Promise<string> {
+  if (electronProcess.profile) {
+    return electronProcess.profile.userDataDir;
+  }
+
+  if (electronProcess.inspectPort && electronProcess.status === 'running') {
+    const response = await executeCDPCommand(electronProcess, MAIN_PROCESS_TARGET_ID, 'Runtime', 'evaluate', {
+      expression: wrapMainProcessExpression("app.getPath('userData')"),
+      returnByValue: true,
+      includeCommandLineAPI: true
+    }) as { result?: { value?: unknown } };
+    const userDataDir = response.result?.value;
+    if (typeof userDataDir === 'string') {
+      electronProcess.profile = { userDataDir, temporary: false, keep: true };
+      return userDataDir;
+    }
+  }
+
+  throw new Error(`The userData directory of process ${electronProcess.id} is unknown; launch it with isolatedProfile, --user-data-dir or inspectMain`);
+}
+
+/**
+ * Writes the default session's DOM storage and cookies to disk, so the profile can be copied while the app runs
+ */
+async function flushProfile(electronProcess: ElectronProcess): Promise<void> {
+  const response = await executeCDPCommand(electronProcess, MAIN_PROCESS_TARGET_ID, 'Runtime', 'evaluate', {
+    expression: wrapMainProcessExpression('electron.session.defaultSession.flushStorageData(), electron.session.defaultSession.cookies.flushStore()'),
+    awaitPromise: true,
+    includeCommandLineAPI: true
+  }) as { exceptionDetails?: { exception?: { description?: string }; text?: string } };
+  if (response.exceptionDetails) {
+    const details = response.exceptionDetails;
+    throw new Error(`Could not flush storage: ${details.exception?.description ?? details.text}`);
+  }
+}
+
+/**
+ * Stops a launched app without forgetting it, runs fn while nothing holds its
+ * files open, then relaunches it with the same command line if it was running
+ */
+async function withAppStopped<T>(state: McpRuntimeState, electronProcess: ElectronProcess, fn: () => T): Promise<{ result: T; relaunched?: boolean }> {
+  if (electronProcess.mode !== 'launched') {
+    throw new Error(`Process ${electronProcess.id} was attached to, so it can't be stopped and relaunched`);
+  }
+
+  const wasRunning = electronProcess.status === 'running' || electronProcess.status === 'restarting';
+  clearTimeout(electronProcess.restartTimer);
+  electronProcess.restartTimer = undefined;
+
+  if (electronProcess.status === 'running' && electronProcess.process) {
+    electronProcess.stopRequested = true;
+    await shutdownProcess(electronProcess.process, { requestQuit: () => requestAppQuit(electronProcess) });
+    closeAllSessions(electronProcess.cdpSessions);
+  }
+
+  const relaunch = async (): Promise<boolean | undefined> => {
+    if (!wasRunning || state.electronProcesses.get(electronProcess.id) !== electronProcess) {
+      return undefined;
+    }
+    electronProcess.stopRequested = false;
+    spawnElectronProcess(state, electronProcess);
+    const connected = await waitForDebugger(electronProcess);
+    if (connected) {
+      await updateVersionInfo(electronProcess);
+    }
+    return connected;
+  };
+
+  let result: T;
+  try {
+    result = fn();
+  } catch (err) {
+    // Don't leave the app down because the file operation failed
+    await relaunch();
+    throw err;
+  }
+  return { result, relaunched: await relaunch() };
+}
+
 function requireRunningElectronProcess(state: McpRuntimeState, processId: string): ElectronProcess {
   const process = state.electronProcesses.get(processId);
   if (!process || process.status !== 'running') {
@@ -463,11 +1917,28 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
     },
     {
       capabilities: {
-        resources: {},
+        resources: { subscribe: true, listChanged: true },
         tools: {},
+        logging: {},
       },
     }
   );
+  // The SDK answers logging/setLevel and drops messages below the level the client asked for
+  runtimeState.diagnostics.send = (message) => server.sendLoggingMessage(message);
+  runtimeState.notifier.send = {
+    updated: (uri) => server.sendResourceUpdated({ uri }),
+    listChanged: () => server.sendResourceListChanged()
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribeResource(runtimeState.notifier, request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unsubscribeResource(runtimeState.notifier, request.params.uri);
+    return {};
+  });
 
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
     const resources = [
@@ -500,6 +1971,56 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
         mimeType: "text/plain",
       });
 
+      resources.push({
+        uri: `${ELECTRON_RESOURCES.LOGS}${id}?format=json`,
+        name: `Electron Logs (JSON): ${process.name}`,
+        description: `Log entries of Electron process ${process.name} with time, stream, level and source`,
+        mimeType: "application/json",
+      });
+
+      if (process.logSink) {
+        resources.push({
+          uri: `${ELECTRON_RESOURCES.LOGS}${id}/archive`,
+          name: `Electron Log Archive: ${process.name}`,
+          description: `Log files of Electron process ${process.name} saved on disk`,
+          mimeType: "application/json",
+        });
+      }
+
+      if (process.metricsSampler) {
+        resources.push({
+          uri: `${ELECTRON_RESOURCES.METRICS}${id}`,
+          name: `Electron Metrics: ${process.name}`,
+          description: `Sampled CPU, memory and page metrics of ${process.name}, with min/max/slope per series`,
+          mimeType: "application/json",
+        });
+      }
+
+      for (const targetId of process.cdpEvents.queues.keys()) {
+        resources.push({
+          uri: eventsResourceUri(id, targetId),
+          name: `Electron Events: ${process.name} ${targetId}`,
+          description: `CDP events of target ${targetId} queued by electron_events_subscribe`,
+          mimeType: "application/json",
+        });
+      }
+
+      if (process.inspectPort) {
+        resources.push({
+          uri: `${ELECTRON_RESOURCES.CDP}${id}/${MAIN_PROCESS_TARGET_ID}`,
+          name: `CDP: ${process.name} main process`,
+          description: `Node inspector access for the main process of ${process.name}`,
+          mimeType: "application/json",
+        });
+
+        resources.push({
+          uri: `${ELECTRON_RESOURCES.CDP}${id}/${MAIN_PROCESS_TARGET_ID}/protocol`,
+          name: `CDP Protocol: ${process.name} main process`,
+          description: `Domains, commands and events the main process inspector of ${process.name} supports`,
+          mimeType: "application/json",
+        });
+      }
+
       if (process.targets && process.targets.length > 0) {
         for (const target of process.targets) {
           resources.push({
@@ -508,10 +2029,26 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
             description: `Chrome DevTools Protocol access for target ${target.id}`,
             mimeType: "application/json",
           });
+
+          resources.push({
+            uri: `${ELECTRON_RESOURCES.CDP}${id}/${target.id}/protocol`,
+            name: `CDP Protocol: ${target.title || target.url}`,
+            description: `Domains, commands and events target ${target.id} supports`,
+            mimeType: "application/json",
+          });
         }
       }
     }
 
+    for (const [id, entry] of runtimeState.history.entries()) {
+      resources.push({
+        uri: `${ELECTRON_RESOURCES.HISTORY}${id}`,
+        name: `Electron History: ${entry.name}`,
+        description: `Exit details, targets and logs of ${entry.finalStatus} process ${entry.name}`,
+        mimeType: "application/json",
+      });
+    }
+
     return { resources };
   });
 
@@ -521,22 +2058,52 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
 
     switch (route.kind) {
       case 'targets': {
-        const allTargets: Array<{ processId: string; target: CDPTarget }> = [];
+        const allTargets: Array<{
+          processId: string;
+          kind: string; // "main", "renderer" for pages and webviews, else the target's type, e.g. "service_worker"
+          target: CDPTarget;
+          crashed: boolean;
+          session?: CDPSessionSummary;
+        }> = [];
 
         for (const [id, process] of runtimeState.electronProcesses.entries()) {
-          if (process.status === 'running' && process.debugPort) {
+          if (process.status !== 'running') {
+            continue;
+          }
+
+          const sessions = describeSessions(process.cdpSessions);
+
+          if (process.inspectPort) {
+            try {
+              const target = await updateMainProcessTarget(process);
+              allTargets.push({
+                processId: id,
+                kind: 'main',
+                target,
+                crashed: false,
+                session: sessions.find(s => s.targetId === MAIN_PROCESS_TARGET_ID)
+              });
+            } catch (err) {
+              logDiagnostic(runtimeState.diagnostics, 'warning', SERVER_LOGGER, `Could not reach main process inspector for process ${id}`, err);
+            }
+          }
+
+          if (process.debugPort) {
             try {
               await updateCDPTargets(process);
               if (process.targets) {
                 for (const target of process.targets) {
                   allTargets.push({
                     processId: id,
-                    target
+                    kind: target.type === 'page' || target.type === 'webview' ? 'renderer' : target.type,
+                    target,
+                    crashed: isTargetCrashed(process.targetEvents, target.id),
+                    session: sessions.find(s => s.targetId === target.id)
                   });
                 }
               }
             } catch (err) {
-              console.warn(`Could not update targets for process ${id}:`, err);
+              logDiagnostic(runtimeState.diagnostics, 'warning', SERVER_LOGGER, `Could not update targets for process ${id}`, err);
             }
           }
         }
@@ -547,12 +2114,21 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
       case 'cdp': {
         const process = requireRunningElectronProcess(runtimeState, route.processId);
 
+        if (!route.commandPath && route.targetId === MAIN_PROCESS_TARGET_ID) {
+          const target = await updateMainProcessTarget(process);
+          return jsonResourceResponse(uri, {
+            target,
+            ...await describeAvailableDomains(process, route.targetId, uri),
+            usage: `To execute a CDP command, append /{domain}/{command} to this URI`
+          });
+        }
+
         if (!route.commandPath) {
           if (!process.targets?.some(t => t.id === route.targetId) && process.debugPort) {
             try {
               await updateCDPTargets(process);
             } catch (err) {
-              console.warn(`Could not update targets for process ${route.processId}:`, err);
+              logDiagnostic(runtimeState.diagnostics, 'warning', SERVER_LOGGER, `Could not update targets for process ${route.processId}`, err);
             }
           }
 
@@ -563,10 +2139,7 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
 
           return jsonResourceResponse(uri, {
             target,
-            availableDomains: [
-              'Page', 'Runtime', 'Debugger', 'DOM', 'Network', 'Console',
-              'Memory', 'Profiler', 'Performance', 'HeapProfiler'
-            ],
+            ...await describeAvailableDomains(process, route.targetId, uri),
             usage: `To execute a CDP command, append /{domain}/{command} to this URI`
           });
         }
@@ -587,6 +2160,39 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
         }
       }
 
+      case 'cdpProtocol': {
+        const process = requireRunningElectronProcess(runtimeState, route.processId);
+        const protocol = await getTargetProtocol(process, route.targetId);
+        const base = `${ELECTRON_RESOURCES.CDP}${route.processId}/${route.targetId}/protocol`;
+
+        if (route.domain) {
+          return jsonResourceResponse(uri, getProtocolDomain(protocol, route.domain));
+        }
+
+        const summary = summarizeProtocol(protocol);
+        return jsonResourceResponse(uri, {
+          version: summary.version,
+          domains: summary.domains.map(domain => ({ ...domain, uri: `${base}/${domain.domain}` }))
+        });
+      }
+
+      case 'events': {
+        const process = runtimeState.electronProcesses.get(route.processId);
+        const queue = process?.cdpEvents.queues.get(route.targetId);
+        if (!process || !queue) {
+          throw new Error(`No events subscribed for target ${route.targetId} of process ${route.processId}`);
+        }
+
+        return jsonResourceResponse(uri, {
+          processId: route.processId,
+          targetId: route.targetId,
+          subscriptions: targetSubscriptions(process.cdpEvents, route.targetId),
+          capacity: queue.capacity,
+          dropped: queue.dropped,
+          events: queue.events
+        });
+      }
+
       case 'invalidCdp':
         throw new Error(`Invalid CDP URI: ${uri}`);
 
@@ -596,6 +2202,7 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
             id,
             name: proc.name,
             status: proc.status,
+            mode: proc.mode,
             pid: proc.pid,
             startTime: proc.startTime
           }))
@@ -611,12 +2218,52 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
       }
 
       case 'logs': {
+        // Logs matter most right after the app died, so fall back to its post-mortem
+        const process = runtimeState.electronProcesses.get(route.processId) ?? runtimeState.history.get(route.processId);
+        if (!process) {
+          throw new Error(`Process ${route.processId} not found`);
+        }
+
+        if (route.format === 'json') {
+          return jsonResourceResponse(uri, { processId: route.processId, entries: process.logs });
+        }
+        return textResourceResponse(uri, formatLogText(process.logs));
+      }
+
+      case 'metrics': {
         const process = runtimeState.electronProcesses.get(route.processId);
         if (!process) {
           throw new Error(`Process ${route.processId} not found`);
         }
+        if (!process.metricsSampler) {
+          throw new Error(`No metrics sampled for process ${route.processId}; start sampling with electron_metrics_start`);
+        }
+
+        return jsonResourceResponse(uri, describeMetricsSampler(process, process.metricsSampler));
+      }
+
+      case 'logArchive': {
+        const archive = getLogSettings().archive;
+        if (!archive) {
+          throw new Error(`Logs are not being archived; set ${LOG_DIR_ENV} to a directory to turn archiving on`);
+        }
+        const directory = getProcessLogDir(archive, route.processId);
+
+        return jsonResourceResponse(uri, {
+          processId: route.processId,
+          directory,
+          error: runtimeState.electronProcesses.get(route.processId)?.logSink?.error,
+          files: listLogArchive(directory)
+        });
+      }
+
+      case 'history': {
+        const entry = runtimeState.history.get(route.processId);
+        if (!entry) {
+          throw new Error(`No history for process ${route.processId}`);
+        }
 
-        return textResourceResponse(uri, process.logs.join('\n'));
+        return jsonResourceResponse(uri, entry);
       }
 
       case 'unknown':
@@ -630,35 +2277,156 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
       tools: [
         {
           name: "electron_start",
-          description: "Start an Electron application with debugging enabled",
+          description: "Start an Electron application, or a packaged Electron executable, with debugging enabled",
           inputSchema: {
             type: "object",
             properties: {
               appPath: {
                 type: "string",
-                description: "Path to the Electron application to start"
+                description: "Path to the Electron application to start (required unless executablePath is given)"
+              },
+              executablePath: {
+                type: "string",
+                description: "Packaged executable to run directly instead of electron <appPath>, e.g. an AppImage or linux-unpacked/my-app"
               },
               debugPort: {
                 type: "number",
-                description: "Optional debugging port (default: auto-select available port)"
+                description: "Optional debugging port (default: let Chromium choose a free port and report it)"
+              },
+              debugPortRange: {
+                type: "object",
+                properties: {
+                  start: { type: "number" },
+                  end: { type: "number" }
+                },
+                required: ["start", "end"],
+                description: "Probe this range for a free debugging port instead of letting Chromium choose, e.g. for apps that ignore --remote-debugging-port=0. Opt-in only: there is no fallback to a range when an app never reports its port"
               },
               startupTimeout: {
                 type: "number",
                 description: "Optional startup timeout in milliseconds (default: 30000)"
+              },
+              inspectMain: {
+                type: "string",
+                enum: ["inspect", "inspect-brk"],
+                description: `Also debug the main process through the Node inspector. "inspect-brk" halts before the app's first line until electron_resume is called on target "${MAIN_PROCESS_TARGET_ID}"`
+              },
+              inspectPort: {
+                type: "number",
+                description: `Optional Node inspector port (default: auto-select from ${DEFAULT_INSPECT_PORT})`
+              },
+              args: {
+                type: "array",
+                items: { type: "string" },
+                description: "Extra Chromium switches and app arguments, passed after appPath"
+              },
+              env: {
+                type: "object",
+                additionalProperties: { type: "string" },
+                description: "Environment variables to set or override for the app"
+              },
+              unsetEnv: {
+                type: "array",
+                items: { type: "string" },
+                description: "Environment variables to remove from the inherited environment"
+              },
+              cwd: {
+                type: "string",
+                description: "Working directory for the app (default: the server's working directory)"
+              },
+              electronPath: {
+                type: "string",
+                description: "Explicit Electron binary (default: node_modules/.bin/electron found from appPath upwards)"
+              },
+              restartPolicy: {
+                type: "string",
+                enum: ["never", "on-crash", "always"],
+                description: "Restart the app when it crashes (on-crash) or whenever it exits on its own (always). Default: never"
+              },
+              maxRestarts: {
+                type: "number",
+                description: "Maximum number of automatic restarts (default: 5)"
+              },
+              restartBackoffMs: {
+                type: "number",
+                description: "Delay before the first restart, doubled for each further one up to 30s (default: 1000)"
+              },
+              readyWhen: {
+                type: "object",
+                properties: {
+                  targetUrl: {
+                    type: "string",
+                    description: "Regex a page target's URL must match"
+                  },
+                  logLine: {
+                    type: "string",
+                    description: "Regex a line of the app's stdout/stderr must match"
+                  },
+                  expression: {
+                    type: "string",
+                    description: "JavaScript that must evaluate to a truthy value in the page (the one matching targetUrl, if given)"
+                  },
+                  loadEvent: {
+                    type: "boolean",
+                    description: "Wait for the page's load event"
+                  }
+                },
+                description: "Conditions that must all hold within startupTimeout, otherwise the app is stopped and the start fails with its logs (default: the debugging endpoint answering)"
+              },
+              isolatedProfile: {
+                type: "boolean",
+                description: "Launch with a fresh temporary --user-data-dir instead of the app's real profile (default: false)"
+              },
+              profileFixture: {
+                type: "string",
+                description: "Directory copied into the temporary profile before launch; implies isolatedProfile"
+              },
+              keepProfile: {
+                type: "boolean",
+                description: "Keep the temporary profile when the app stops (default: false)"
+              },
+              profileSnapshot: {
+                type: "string",
+                description: "Name of a snapshot taken with electron_profile_snapshot to seed the temporary profile from; implies isolatedProfile"
+              }
+            }
+          }
+        },
+        {
+          name: "electron_attach",
+          description: "Attach to an Electron application that is already running with --remote-debugging-port",
+          inputSchema: {
+            type: "object",
+            properties: {
+              host: {
+                type: "string",
+                description: "Host of the remote debugging endpoint (default: localhost)"
+              },
+              port: {
+                type: "number",
+                description: "Remote debugging port the application was started with"
+              },
+              name: {
+                type: "string",
+                description: "Optional display name (default: browser name reported by /json/version)"
               }
             },
-            required: ["appPath"]
+            required: ["port"]
           }
         },
         {
           name: "electron_stop",
-          description: "Stop a running Electron process",
+          description: "Stop a running Electron process, or detach from an attached one",
           inputSchema: {
             type: "object",
             properties: {
               processId: {
                 type: "string",
                 description: "ID of the Electron process to stop"
+              },
+              gracePeriodMs: {
+                type: "number",
+                description: `How long to wait after asking the app to quit, and after SIGTERM, before escalating (default: ${DEFAULT_GRACE_PERIOD_MS})`
               }
             },
             required: ["processId"]
@@ -666,12 +2434,164 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
         },
         {
           name: "electron_list",
-          description: "List all running Electron processes",
+          description: "List the Electron processes the server manages, whether running, crashed or waiting to restart, with their restart count and last crash",
           inputSchema: {
             type: "object",
             properties: {}
           }
         },
+        {
+          name: "electron_history",
+          description: "List processes that have exited, been stopped or been detached from, or get the full post-mortem of one",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of an exited process; returns its exit details, crashes, targets seen and full log"
+              }
+            }
+          }
+        },
+        {
+          name: "electron_logs",
+          description: "Query the logs of one or all processes by text, level and time. Pass the returned nextCursor back as cursor to get only lines logged since.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of the Electron process, including exited ones; all managed processes if omitted"
+              },
+              pattern: {
+                type: "string",
+                description: "Text the message must contain"
+              },
+              regex: {
+                type: "boolean",
+                description: "Treat pattern as a regular expression (default: false)"
+              },
+              level: {
+                type: "string",
+                enum: LOG_LEVELS,
+                description: "Minimum level"
+              },
+              since: {
+                type: "string",
+                description: "Only entries logged at or after this time (ISO 8601)"
+              },
+              until: {
+                type: "string",
+                description: "Only entries logged at or before this time (ISO 8601)"
+              },
+              tail: {
+                type: "number",
+                description: "Return only the last N matching entries"
+              },
+              cursor: {
+                type: "string",
+                description: "nextCursor from an earlier call; only entries logged after it are returned"
+              }
+            }
+          }
+        },
+        {
+          name: "electron_profile_snapshot",
+          description: "Save the app's userData directory (IndexedDB, localStorage, cookies, app files) as a named snapshot that electron_start and electron_profile_restore can use",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of the Electron process"
+              },
+              name: {
+                type: "string",
+                description: "Snapshot name (letters, digits, '.', '_' and '-')"
+              },
+              overwrite: {
+                type: "boolean",
+                description: "Replace an existing snapshot with the same name (default: false)"
+              },
+              stopApp: {
+                type: "boolean",
+                description: "Stop the app while copying and relaunch it afterwards, even if storage could be flushed through the main process inspector (default: false)"
+              }
+            },
+            required: ["processId", "name"]
+          }
+        },
+        {
+          name: "electron_profile_restore",
+          description: "Replace the app's userData directory with a named snapshot, stopping the app first and relaunching it afterwards",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of a launched Electron process"
+              },
+              name: {
+                type: "string",
+                description: "Snapshot name"
+              }
+            },
+            required: ["processId", "name"]
+          }
+        },
+        {
+          name: "electron_metrics_start",
+          description: "Start sampling CPU, memory and page performance metrics at a fixed interval into a bounded buffer, readable as electron://metrics/{processId}. Restarting keeps the samples taken so far.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of the Electron process"
+              },
+              intervalMs: {
+                type: "number",
+                description: `Time between samples in milliseconds (default: ${DEFAULT_SAMPLE_INTERVAL_MS}, minimum: ${MIN_SAMPLE_INTERVAL_MS})`
+              },
+              capacity: {
+                type: "number",
+                description: `Samples to keep; the oldest are dropped beyond this (default: ${DEFAULT_SAMPLE_CAPACITY})`
+              }
+            },
+            required: ["processId"]
+          }
+        },
+        {
+          name: "electron_metrics_stop",
+          description: "Stop sampling metrics. The samples stay readable as electron://metrics/{processId} while the process is managed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of the Electron process"
+              }
+            },
+            required: ["processId"]
+          }
+        },
+        {
+          name: "electron_orphans",
+          description: "List Electron apps left running by a previous server instance, and optionally kill them",
+          inputSchema: {
+            type: "object",
+            properties: {
+              reap: {
+                type: "boolean",
+                description: "Scan again, then kill the orphaned apps and their child processes (default: false)"
+              },
+              rescan: {
+                type: "boolean",
+                description: "Scan again instead of reporting what was found at server startup (default: false)"
+              }
+            }
+          }
+        },
         {
           name: "electron_reload",
           description: "Reload a specific page or application",
@@ -684,15 +2604,107 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
               },
               targetId: {
                 type: "string",
-                description: "Optional target ID to reload specific page (reloads all if not specified)"
+                description: "Optional target ID to reload specific page (reloads all if not specified)"
+              }
+            },
+            required: ["processId"]
+          }
+        },
+        {
+          name: "electron_evaluate",
+          description: "Execute JavaScript in a page context",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of the Electron process"
+              },
+              targetId: {
+                type: "string",
+                description: `CDP target ID, or "${MAIN_PROCESS_TARGET_ID}" to evaluate in the main process with app, BrowserWindow and ipcMain in scope`
+              },
+              expression: {
+                type: "string",
+                description: "JavaScript expression to evaluate"
+              },
+              returnByValue: {
+                type: "boolean",
+                description: "Whether to return the result by value (default: true)"
+              }
+            },
+            required: ["processId", "targetId", "expression"]
+          }
+        },
+        {
+          name: "electron_pause",
+          description: "Pause JavaScript execution",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of the Electron process"
+              },
+              targetId: {
+                type: "string",
+                description: `CDP target ID, or "${MAIN_PROCESS_TARGET_ID}" for the main process`
+              }
+            },
+            required: ["processId", "targetId"]
+          }
+        },
+        {
+          name: "electron_resume",
+          description: "Resume JavaScript execution",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of the Electron process"
+              },
+              targetId: {
+                type: "string",
+                description: `CDP target ID, or "${MAIN_PROCESS_TARGET_ID}" for the main process`
+              }
+            },
+            required: ["processId", "targetId"]
+          }
+        },
+        {
+          name: "electron_cdp_send",
+          description: "Send any Chrome DevTools Protocol command with parameters. The method and parameters are checked against the protocol the target reports at /json/protocol before sending, and a failed command returns the CDP error code, message and data.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              processId: {
+                type: "string",
+                description: "ID of the Electron process"
+              },
+              method: {
+                type: "string",
+                description: "Domain.command, e.g. Page.navigate or DOM.querySelector"
+              },
+              params: {
+                type: "object",
+                description: "Command parameters (default: none)"
+              },
+              targetId: {
+                type: "string",
+                description: `CDP target ID, or "${MAIN_PROCESS_TARGET_ID}" for the main process (default: the first page)`
+              },
+              sessionId: {
+                type: "string",
+                description: "Session from Target.attachToTarget with flatten: true, to reach e.g. a worker or iframe through the target's connection"
               }
             },
-            required: ["processId"]
+            required: ["processId", "method"]
           }
         },
         {
-          name: "electron_evaluate",
-          description: "Execute JavaScript in a page context",
+          name: "electron_events_subscribe",
+          description: "Start queueing CDP events of a target, e.g. Page.loadEventFired, Network.requestWillBeSent or Debugger.paused. The events' domains are enabled on the target. Read them with electron_events_poll or the electron://events/{processId}/{targetId} resource.",
           inputSchema: {
             type: "object",
             properties: {
@@ -702,23 +2714,24 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
               },
               targetId: {
                 type: "string",
-                description: "CDP target ID"
+                description: `CDP target ID, or "${MAIN_PROCESS_TARGET_ID}" for the main process (default: the first page)`
               },
-              expression: {
-                type: "string",
-                description: "JavaScript expression to evaluate"
+              events: {
+                type: "array",
+                items: { type: "string" },
+                description: "Events as Domain.event, or Domain.* for all events of a domain"
               },
-              returnByValue: {
-                type: "boolean",
-                description: "Whether to return the result by value (default: true)"
+              capacity: {
+                type: "number",
+                description: `Events kept for the target before the oldest are dropped (default: ${DEFAULT_EVENT_QUEUE_CAPACITY})`
               }
             },
-            required: ["processId", "targetId", "expression"]
+            required: ["processId", "events"]
           }
         },
         {
-          name: "electron_pause",
-          description: "Pause JavaScript execution",
+          name: "electron_events_unsubscribe",
+          description: "Stop queueing the events of a subscription. Events already queued can still be polled.",
           inputSchema: {
             type: "object",
             properties: {
@@ -726,17 +2739,17 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
                 type: "string",
                 description: "ID of the Electron process"
               },
-              targetId: {
+              subscriptionId: {
                 type: "string",
-                description: "CDP target ID"
+                description: "ID returned by electron_events_subscribe"
               }
             },
-            required: ["processId", "targetId"]
+            required: ["processId", "subscriptionId"]
           }
         },
         {
-          name: "electron_resume",
-          description: "Resume JavaScript execution",
+          name: "electron_events_poll",
+          description: "Read queued CDP events after a sequence number, oldest first",
           inputSchema: {
             type: "object",
             properties: {
@@ -746,10 +2759,22 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
               },
               targetId: {
                 type: "string",
-                description: "CDP target ID"
+                description: "Only events of this target (default: all targets)"
+              },
+              afterSeq: {
+                type: "number",
+                description: "Only events after this sequence number; pass the nextSeq of the previous poll"
+              },
+              limit: {
+                type: "number",
+                description: `Most events to return (default: ${DEFAULT_EVENT_POLL_LIMIT})`
+              },
+              method: {
+                type: "string",
+                description: "Only events matching Domain.event or Domain.*"
               }
             },
-            required: ["processId", "targetId"]
+            required: ["processId"]
           }
         }
       ]
@@ -762,12 +2787,14 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
     try {
       switch (name) {
         case "electron_start": {
-          const { appPath, debugPort, startupTimeout } = args as {
-            appPath: string;
-            debugPort?: number;
-            startupTimeout?: number;
+          const { inspectMain, inspectPort, ...launchOptions } = args as Omit<ElectronLaunchOptions, 'inspect'> & {
+            inspectMain?: MainProcessInspectMode;
+            inspectPort?: number;
           };
-          const process = await startElectronApp(runtimeState, appPath, debugPort, startupTimeout);
+          const process = await startElectronApp(runtimeState, {
+            ...launchOptions,
+            inspect: inspectMain ? { mode: inspectMain, port: inspectPort } : undefined
+          });
           return {
             content: [
               {
@@ -778,7 +2805,40 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
                   status: process.status,
                   pid: process.pid,
                   debugPort: process.debugPort,
-                  appPath: process.appPath
+                  inspectPort: process.inspectPort,
+                  appPath: process.appPath,
+                  executablePath: process.executablePath,
+                  electronPath: process.electronPath,
+                  versions: process.version ? parseElectronVersions(process.version) : undefined,
+                  cwd: process.cwd,
+                  userDataDir: process.profile?.userDataDir
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_attach": {
+          const { host = 'localhost', port, name: displayName } = args as {
+            host?: string;
+            port: number;
+            name?: string;
+          };
+          const process = await attachToElectronApp(runtimeState, host, port, displayName);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  processId: process.id,
+                  name: process.name,
+                  status: process.status,
+                  mode: process.mode,
+                  host: process.host,
+                  debugPort: process.debugPort,
+                  browser: process.version?.Browser,
+                  protocolVersion: process.version?.['Protocol-Version'],
+                  targets: process.targets?.length ?? 0
                 }, null, 2)
               }
             ]
@@ -786,15 +2846,17 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
         }
 
         case "electron_stop": {
-          const { processId } = args as { processId: string };
-          const stopped = stopElectronApp(runtimeState, processId);
+          const { processId, gracePeriodMs } = args as { processId: string; gracePeriodMs?: number };
+          const exit = await stopElectronApp(runtimeState, processId, gracePeriodMs);
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  success: stopped,
-                  processId
+                  success: exit !== null,
+                  processId,
+                  action: exit === 'detached' ? 'detached' : 'stopped',
+                  exit: exit && exit !== 'detached' ? exit : undefined
                 }, null, 2)
               }
             ]
@@ -807,9 +2869,17 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
             name: proc.name,
             status: proc.status,
             pid: proc.pid,
+            mode: proc.mode,
             startTime: proc.startTime.toISOString(),
             appPath: proc.appPath,
-            debugPort: proc.debugPort
+            executablePath: proc.executablePath,
+            host: proc.host,
+            debugPort: proc.debugPort,
+            versions: proc.version ? parseElectronVersions(proc.version) : undefined,
+            restartPolicy: proc.supervisor?.policy,
+            restartCount: proc.restartCount,
+            crashes: proc.crashes.length,
+            lastCrash: proc.crashes[proc.crashes.length - 1]
           }));
           return {
             content: [
@@ -821,6 +2891,245 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
           };
         }
 
+        case "electron_history": {
+          const { processId } = args as { processId?: string };
+          if (processId) {
+            const entry = runtimeState.history.get(processId);
+            if (!entry) {
+              throw new Error(`No history for process ${processId}`);
+            }
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(entry, null, 2)
+                }
+              ]
+            };
+          }
+
+          // Most recent first
+          const processes = Array.from(runtimeState.history.values()).reverse().map(summarizeHistoryEntry);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ processes }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_logs": {
+          const { processId, pattern, regex = false, level, since, until, tail, cursor } = args as {
+            processId?: string;
+            pattern?: string;
+            regex?: boolean;
+            level?: LogLevel;
+            since?: string;
+            until?: string;
+            tail?: number;
+            cursor?: string;
+          };
+          if (level !== undefined && !LOG_LEVELS.includes(level)) {
+            throw new Error(`Unknown log level: ${level}`);
+          }
+          if (tail !== undefined && !(Number.isInteger(tail) && tail >= 0)) {
+            throw new Error('tail must be a non-negative integer');
+          }
+
+          let sources: Array<[string, { logs: LogEntry[] }]>;
+          if (processId) {
+            const source = runtimeState.electronProcesses.get(processId) ?? runtimeState.history.get(processId);
+            if (!source) {
+              throw new Error(`Process ${processId} not found`);
+            }
+            sources = [[processId, source]];
+          } else {
+            sources = Array.from(runtimeState.electronProcesses.entries());
+          }
+
+          const positions = cursor ? decodeLogCursor(cursor) : {};
+          const query = {
+            pattern,
+            regex,
+            level,
+            since: since !== undefined ? parseTimeBound(since, 'since') : undefined,
+            until: until !== undefined ? parseTimeBound(until, 'until') : undefined
+          };
+
+          const nextPositions = { ...positions };
+          let entries: Array<LogEntry & { processId: string }> = [];
+          for (const [id, source] of sources) {
+            const matched = filterLogEntries(source.logs, { ...query, afterSeq: positions[id] });
+            entries.push(...matched.map(entry => ({ processId: id, ...entry })));
+            const lastSeq = source.logs[source.logs.length - 1]?.seq;
+            if (lastSeq !== undefined) {
+              nextPositions[id] = lastSeq;
+            }
+          }
+
+          // Interleave processes by time; the sort is stable, so each process keeps its own order
+          entries.sort((a, b) => a.time.getTime() - b.time.getTime());
+          const matchedCount = entries.length;
+          if (tail !== undefined) {
+            entries = tail > 0 ? entries.slice(-tail) : [];
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  entries,
+                  matched: matchedCount,
+                  nextCursor: encodeLogCursor(nextPositions)
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_profile_snapshot": {
+          const { processId, name: snapshotName, overwrite = false, stopApp = false } = args as {
+            processId: string;
+            name: string;
+            overwrite?: boolean;
+            stopApp?: boolean;
+          };
+          const process = runtimeState.electronProcesses.get(processId);
+          if (!process) {
+            throw new Error(`Process ${processId} not found`);
+          }
+          validateSnapshotName(snapshotName);
+          const userDataDir = await resolveUserDataDir(process);
+
+          // Chromium writes storage lazily, so copy only once it is flushed or the app is down
+          let method: 'copied' | 'flushed' | 'stopped';
+          let snapshot;
+          let relaunched: boolean | undefined;
+          if (process.status !== 'running' && process.status !== 'restarting') {
+            method = 'copied';
+            snapshot = saveSnapshot(userDataDir, snapshotName, overwrite);
+          } else if (process.status === 'running' && process.inspectPort && !stopApp) {
+            method = 'flushed';
+            await flushProfile(process);
+            snapshot = saveSnapshot(userDataDir, snapshotName, overwrite);
+          } else {
+            method = 'stopped';
+            ({ result: snapshot, relaunched } = await withAppStopped(runtimeState, process, () => saveSnapshot(userDataDir, snapshotName, overwrite)));
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ processId, userDataDir, method, relaunched, snapshot }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_profile_restore": {
+          const { processId, name: snapshotName } = args as { processId: string; name: string };
+          const process = runtimeState.electronProcesses.get(processId);
+          if (!process) {
+            throw new Error(`Process ${processId} not found`);
+          }
+          resolveSnapshot(snapshotName);
+          const userDataDir = await resolveUserDataDir(process);
+
+          const { result: snapshot, relaunched } = await withAppStopped(runtimeState, process, () => restoreSnapshot(snapshotName, userDataDir));
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ processId, userDataDir, relaunched, snapshot }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_metrics_start": {
+          const { processId, intervalMs = DEFAULT_SAMPLE_INTERVAL_MS, capacity = DEFAULT_SAMPLE_CAPACITY } = args as {
+            processId: string;
+            intervalMs?: number;
+            capacity?: number;
+          };
+          const process = runtimeState.electronProcesses.get(processId);
+          if (!process) {
+            throw new Error(`Process ${processId} not found`);
+          }
+          if (!(intervalMs >= MIN_SAMPLE_INTERVAL_MS)) {
+            throw new Error(`intervalMs must be at least ${MIN_SAMPLE_INTERVAL_MS}`);
+          }
+          const sampler = startMetricsSampler(process, intervalMs, capacity);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  processId,
+                  intervalMs,
+                  capacity,
+                  samples: sampler.samples.items.length,
+                  resource: `${ELECTRON_RESOURCES.METRICS}${processId}`
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_metrics_stop": {
+          const { processId } = args as { processId: string };
+          const process = runtimeState.electronProcesses.get(processId);
+          if (!process) {
+            throw new Error(`Process ${processId} not found`);
+          }
+          if (!process.metricsSampler) {
+            throw new Error(`Metrics are not being sampled for process ${processId}`);
+          }
+          stopMetricsSampler(process);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  processId,
+                  samples: process.metricsSampler.samples.items.length,
+                  resource: `${ELECTRON_RESOURCES.METRICS}${processId}`
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_orphans": {
+          const { reap = false, rescan = false } = args as { reap?: boolean; rescan?: boolean };
+          // The list found at startup may be stale by now, and its PIDs reused
+          if (rescan || reap) {
+            runtimeState.orphans = findOrphanedProcesses();
+          }
+
+          const orphans = runtimeState.orphans;
+          const reaped = reap ? reapOrphans(orphans) : [];
+          if (reap) {
+            runtimeState.orphans = [];
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ orphans, reaped }, null, 2)
+              }
+            ]
+          };
+        }
+
         case "electron_reload": {
           const { processId, targetId } = args as { processId: string; targetId?: string };
           const process = runtimeState.electronProcesses.get(processId);
@@ -835,7 +3144,7 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
               try {
                 await executeCDPCommand(process, target.id, "Page", "reload");
               } catch (err) {
-                console.warn(`Failed to reload target ${target.id}:`, err);
+                logDiagnostic(runtimeState.diagnostics, 'warning', SERVER_LOGGER, `Failed to reload target ${target.id}`, err);
               }
             }
           }
@@ -866,9 +3175,12 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
             throw new Error(`Process ${processId} not found or not running`);
           }
 
+          const isMainProcess = targetId === MAIN_PROCESS_TARGET_ID;
           const result = await executeCDPCommand(process, targetId, "Runtime", "evaluate", {
-            expression,
-            returnByValue
+            expression: isMainProcess ? wrapMainProcessExpression(expression) : expression,
+            returnByValue,
+            // Gives the main process wrapper access to require()
+            includeCommandLineAPI: isMainProcess
           });
 
           return {
@@ -892,6 +3204,8 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
             throw new Error(`Process ${processId} not found or not running`);
           }
 
+          // The Debugger domain has to be enabled before it accepts pause/resume
+          await executeCDPCommand(process, targetId, "Debugger", "enable");
           await executeCDPCommand(process, targetId, "Debugger", "pause");
 
           return {
@@ -915,7 +3229,21 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
             throw new Error(`Process ${processId} not found or not running`);
           }
 
-          await executeCDPCommand(process, targetId, "Debugger", "resume");
+          await executeCDPCommand(process, targetId, "Debugger", "enable");
+          if (targetId === MAIN_PROCESS_TARGET_ID) {
+            // Releases a main process started with --inspect-brk
+            await executeCDPCommand(process, targetId, "Runtime", "runIfWaitingForDebugger");
+            try {
+              await executeCDPCommand(process, targetId, "Debugger", "resume");
+            } catch (err) {
+              // Not being paused just means the main process is already running
+              if (!(err instanceof Error && /paused/i.test(err.message))) {
+                throw err;
+              }
+            }
+          } else {
+            await executeCDPCommand(process, targetId, "Debugger", "resume");
+          }
 
           return {
             content: [
@@ -931,6 +3259,194 @@ function createConfiguredMcpServer(runtimeState: McpRuntimeState): Server {
           };
         }
 
+        case "electron_cdp_send": {
+          const { processId, method, params = {}, targetId: requestedTargetId, sessionId } = args as {
+            processId: string;
+            method: string;
+            params?: Record<string, unknown>;
+            targetId?: string;
+            sessionId?: string;
+          };
+          const process = requireRunningElectronProcess(runtimeState, processId);
+          const targetId = requestedTargetId ?? await defaultCDPTargetId(process);
+          const { domain, command } = parseCDPMethod(method);
+
+          const { result: problems = [], validation } = await checkAgainstTargetProtocol(process, targetId,
+            (protocol) => validateCDPCall(protocol, method, params));
+          if (problems.length > 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: `Invalid parameters for ${method}`,
+                    method,
+                    problems
+                  }, null, 2)
+                }
+              ],
+              isError: true
+            };
+          }
+
+          let result: unknown;
+          try {
+            result = await executeCDPCommand(process, targetId, domain, command, params, sessionId);
+          } catch (error) {
+            const cdpError = cdpErrorDetails(error);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: `${method} failed: ${cdpError.message}`,
+                    method,
+                    processId,
+                    targetId,
+                    sessionId,
+                    cdpError
+                  }, null, 2)
+                }
+              ],
+              isError: true
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  result,
+                  method,
+                  processId,
+                  targetId,
+                  sessionId,
+                  validation
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_events_subscribe": {
+          const { processId, targetId: requestedTargetId, events, capacity } = args as {
+            processId: string;
+            targetId?: string;
+            events: string[];
+            capacity?: number;
+          };
+          const process = requireRunningElectronProcess(runtimeState, processId);
+          const targetId = requestedTargetId ?? await defaultCDPTargetId(process);
+          const domains = eventDomains(events);
+
+          const { validation } = await checkAgainstTargetProtocol(process, targetId,
+            (protocol) => checkEventPatterns(protocol, events));
+
+          if (capacity !== undefined) {
+            createEventQueue(capacity); // Validates before anything changes
+          }
+          // The subscription has to be in place before enabling its domains, as enabling replays
+          // some events. An existing queue is only resized once the session is open, so a failed
+          // subscribe leaves it as it was.
+          const existingQueue = process.cdpEvents.queues.get(targetId);
+          const subscription = addEventSubscription(process.cdpEvents, targetId, events, existingQueue ? undefined : capacity);
+          let notEnabled: Record<string, string>;
+          try {
+            const client = await acquireSession(process.cdpSessions, targetId, (id) => connectToCDPTarget(process, id));
+            notEnabled = await enableEventDomains(client, domains);
+          } catch (err) {
+            removeEventSubscription(process.cdpEvents, subscription.id);
+            if (!existingQueue) {
+              process.cdpEvents.queues.delete(targetId);
+            }
+            throw err;
+          }
+          if (!existingQueue) {
+            notifyResourceListChanged(runtimeState.notifier);
+          } else if (capacity !== undefined) {
+            resizeEventQueue(existingQueue, capacity);
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  subscriptionId: subscription.id,
+                  processId,
+                  targetId,
+                  events,
+                  capacity: process.cdpEvents.queues.get(targetId)?.capacity,
+                  enabled: domains.filter(domain => !(domain in notEnabled)),
+                  notEnabled: Object.keys(notEnabled).length > 0 ? notEnabled : undefined,
+                  validation,
+                  resource: eventsResourceUri(processId, targetId)
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_events_unsubscribe": {
+          const { processId, subscriptionId } = args as { processId: string; subscriptionId: string };
+          const process = runtimeState.electronProcesses.get(processId);
+          if (!process) {
+            throw new Error(`Process ${processId} not found`);
+          }
+
+          const subscription = removeEventSubscription(process.cdpEvents, subscriptionId);
+          if (!subscription) {
+            throw new Error(`Subscription ${subscriptionId} not found in process ${processId}`);
+          }
+
+          // Domains stay enabled: the server's own sessions may rely on them
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: true,
+                  processId,
+                  subscriptionId,
+                  targetId: subscription.targetId,
+                  remainingSubscriptions: targetSubscriptions(process.cdpEvents, subscription.targetId).map(s => s.id)
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "electron_events_poll": {
+          const { processId, targetId, afterSeq, limit, method } = args as {
+            processId: string;
+            targetId?: string;
+            afterSeq?: number;
+            limit?: number;
+            method?: string;
+          };
+          // Crashed processes stay listed, and their last events are often the interesting ones
+          const process = runtimeState.electronProcesses.get(processId);
+          if (!process) {
+            throw new Error(`Process ${processId} not found`);
+          }
+
+          const queues = targetId
+            ? [process.cdpEvents.queues.get(targetId)].filter(queue => queue !== undefined)
+            : Array.from(process.cdpEvents.queues.values());
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  processId,
+                  ...pollEvents(queues, { afterSeq, limit, targetId, method })
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -959,11 +3475,47 @@ export function createMcpServer(): Server {
 const defaultRuntimeState = createRuntimeState();
 const defaultServer = createConfiguredMcpServer(defaultRuntimeState);
 
+// Shorter than the per-call default: the MCP host is usually waiting on us to exit
+const SERVER_SHUTDOWN_GRACE_PERIOD_MS = 2000;
+
+/**
+ * Stops every managed app before the server exits, whatever the reason
+ */
+function installShutdownHandlers(state: McpRuntimeState, server: Server): void {
+  let shuttingDown = false;
+  const shutdown = async (exitCode: number) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    await stopAllElectronApps(state, SERVER_SHUTDOWN_GRACE_PERIOD_MS);
+    process.exit(exitCode);
+  };
+
+  process.once('SIGINT', () => void shutdown(130));
+  process.once('SIGTERM', () => void shutdown(143));
+  // The host closing our stdin is the usual way an MCP session ends
+  process.stdin.once('end', () => void shutdown(0));
+  server.onclose = () => void shutdown(0);
+  process.once('exit', () => killAllElectronAppsSync(state));
+}
+
 // Start server using stdio transport
 export async function startMcpServer(): Promise<void> {
+  defaultRuntimeState.orphans = findOrphanedProcesses();
+
+  // stdout carries the protocol; anything else is sent as a log message once the client is ready
+  defaultServer.oninitialized = () => {
+    const { diagnostics, orphans } = defaultRuntimeState;
+    logDiagnostic(diagnostics, 'info', SERVER_LOGGER, 'Electron Debug MCP Server running');
+    if (orphans.length > 0) {
+      logDiagnostic(diagnostics, 'warning', SERVER_LOGGER, `Found ${orphans.length} Electron app(s) left behind by a previous server instance; use electron_orphans to reap them`);
+    }
+  };
+
   const transport = new StdioServerTransport();
+  installShutdownHandlers(defaultRuntimeState, defaultServer);
   await defaultServer.connect(transport);
-  console.info('{"jsonrpc": "2.0", "method": "log", "params": { "message": "Electron Debug MCP Server running..." }}');
 }
 
 function isMainModule(): boolean {
@@ -976,8 +3528,7 @@ function isMainModule(): boolean {
 
 if (isMainModule()) {
   startMcpServer().catch((error: unknown) => {
-    const message = error instanceof Error ? error.message : String(error);
-    console.error(`Failed to start Electron Debug MCP Server: ${message}`);
+    logDiagnostic(defaultRuntimeState.diagnostics, 'error', SERVER_LOGGER, 'Failed to start Electron Debug MCP Server', error);
     process.exitCode = 1;
   });
 }
@@ -0,0 +1,42 @@
+/**
+ * Builds the command line and environment for launching Electron
+ */
+
+export interface LaunchArgsInput {
+  appPath?: string; // Omitted when launching a packaged executable
+  debugPort: number;
+  inspectArg?: string; // --inspect or --inspect-brk switch for the main process
+  userDataDir?: string; // Profile directory, e.g. a temporary one
+  extraArgs?: string[]; // Chromium switches and app arguments, passed after appPath if any
+}
+
+export function buildLaunchArgs(input: LaunchArgsInput): string[] {
+  const args = ['--enable-logging', `--remote-debugging-port=${input.debugPort}`];
+  if (input.inspectArg) {
+    args.push(input.inspectArg);
+  }
+  if (input.userDataDir) {
+    args.push(`--user-data-dir=${input.userDataDir}`);
+  }
+  if (input.appPath) {
+    args.push(input.appPath);
+  }
+  args.push(...(input.extraArgs ?? []));
+  return args;
+}
+
+/**
+ * Merges overrides into the base environment and drops removed variables.
+ * Removals win over overrides so a variable can't be set and unset at once by accident.
+ */
+export function buildLaunchEnv(
+  base: NodeJS.ProcessEnv,
+  overrides: Record<string, string> = {},
+  remove: string[] = []
+): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { ...base, ELECTRON_ENABLE_LOGGING: '1', ...overrides };
+  for (const name of remove) {
+    delete env[name];
+  }
+  return env;
+}
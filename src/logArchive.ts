@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogEntry } from './logEntries.js';
+
+/**
+ * Optional on-disk copy of each process's log, as JSON lines in a directory
+ * per process ID. Files are rotated by size and age and the oldest dropped,
+ * so a long debugging session can't fill the disk.
+ */
+
+export const LOG_DIR_ENV = 'ELECTRON_DEBUG_MCP_LOG_DIR'; // Archiving is on when this is set
+export const LOG_MAX_FILE_BYTES_ENV = 'ELECTRON_DEBUG_MCP_LOG_MAX_FILE_BYTES';
+export const LOG_MAX_FILE_AGE_MS_ENV = 'ELECTRON_DEBUG_MCP_LOG_MAX_FILE_AGE_MS';
+export const LOG_MAX_FILES_ENV = 'ELECTRON_DEBUG_MCP_LOG_MAX_FILES';
+export const LOG_MAX_ENTRIES_ENV = 'ELECTRON_DEBUG_MCP_LOG_MAX_ENTRIES'; // Entries kept in memory per process
+
+export const DEFAULT_MAX_LOG_ENTRIES = 1000;
+export const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_MAX_FILE_AGE_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_MAX_FILES = 10;
+
+export interface LogArchiveOptions {
+  directory: string;
+  maxFileBytes: number;
+  maxFileAgeMs: number;
+  maxFiles: number; // Per process
+}
+
+export interface LogSettings {
+  maxEntries: number;
+  archive?: LogArchiveOptions;
+}
+
+export interface LogSink {
+  directory: string; // This process's directory
+  options: LogArchiveOptions;
+  file?: { path: string; fd: number; bytes: number; openedAt: number };
+  error?: string; // Why writing stopped, if it did
+}
+
+export interface ArchivedLogFile {
+  name: string;
+  path: string;
+  bytes: number;
+  modified: Date;
+}
+
+function readPositiveInteger(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function getLogSettings(env: NodeJS.ProcessEnv = process.env): LogSettings {
+  const directory = env[LOG_DIR_ENV];
+  return {
+    maxEntries: readPositiveInteger(env, LOG_MAX_ENTRIES_ENV, DEFAULT_MAX_LOG_ENTRIES),
+    archive: directory ? {
+      directory: path.resolve(directory),
+      maxFileBytes: readPositiveInteger(env, LOG_MAX_FILE_BYTES_ENV, DEFAULT_MAX_FILE_BYTES),
+      maxFileAgeMs: readPositiveInteger(env, LOG_MAX_FILE_AGE_MS_ENV, DEFAULT_MAX_FILE_AGE_MS),
+      maxFiles: readPositiveInteger(env, LOG_MAX_FILES_ENV, DEFAULT_MAX_FILES)
+    } : undefined
+  };
+}
+
+/**
+ * Directory holding the archived logs of a process. Process IDs become directory names, so they are checked.
+ */
+export function getProcessLogDir(options: LogArchiveOptions, processId: string): string {
+  if (!/^[A-Za-z0-9._-]+$/.test(processId) || processId === '.' || processId === '..') {
+    throw new Error(`Invalid process ID "${processId}"`);
+  }
+  return path.join(options.directory, processId);
+}
+
+export function createLogSink(options: LogArchiveOptions, processId: string): LogSink {
+  const directory = getProcessLogDir(options, processId);
+  fs.mkdirSync(directory, { recursive: true });
+  return { directory, options };
+}
+
+function openLogFile(sink: LogSink, now: number): void {
+  const stamp = new Date(now).toISOString().replace(/[:.]/g, '-');
+  let name = `${stamp}.jsonl`;
+  for (let n = 1; fs.existsSync(path.join(sink.directory, name)); n++) {
+    name = `${stamp}-${n}.jsonl`;
+  }
+  const filePath = path.join(sink.directory, name);
+  sink.file = { path: filePath, fd: fs.openSync(filePath, 'a'), bytes: 0, openedAt: now };
+  pruneLogFiles(sink.directory, sink.options.maxFiles);
+}
+
+/**
+ * Deletes the oldest files beyond maxFiles. Names start with their creation time, so they sort by age.
+ */
+function pruneLogFiles(directory: string, maxFiles: number): void {
+  const files = fs.readdirSync(directory).filter(name => name.endsWith('.jsonl')).sort();
+  for (const name of files.slice(0, Math.max(0, files.length - maxFiles))) {
+    fs.rmSync(path.join(directory, name), { force: true });
+  }
+}
+
+/**
+ * Appends an entry, starting a new file first if the current one is full or too old.
+ * A failed write stops archiving for this process rather than failing the caller.
+ */
+export function writeLogEntry(sink: LogSink, entry: LogEntry, now: number = Date.now()): void {
+  if (sink.error) {
+    return;
+  }
+  try {
+    const line = `${JSON.stringify(entry)}\n`;
+    const file = sink.file;
+    if (!file || (file.bytes > 0 && file.bytes + Buffer.byteLength(line) > sink.options.maxFileBytes) || now - file.openedAt >= sink.options.maxFileAgeMs) {
+      closeLogSink(sink);
+      openLogFile(sink, now);
+    }
+    sink.file!.bytes += fs.writeSync(sink.file!.fd, line);
+  } catch (err) {
+    sink.error = err instanceof Error ? err.message : String(err);
+    closeLogSink(sink);
+  }
+}
+
+/**
+ * Closes the current file; the next entry written starts a new one
+ */
+export function closeLogSink(sink: LogSink): void {
+  if (sink.file) {
+    try {
+      fs.closeSync(sink.file.fd);
+    } catch {
+      // Already closed
+    }
+    sink.file = undefined;
+  }
+}
+
+/**
+ * Archived files of a process, oldest first
+ */
+export function listLogArchive(directory: string): ArchivedLogFile[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(directory).filter(name => name.endsWith('.jsonl')).sort();
+  } catch {
+    return [];
+  }
+  return names.flatMap(name => {
+    const filePath = path.join(directory, name);
+    const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+    return stat ? [{ name, path: filePath, bytes: stat.size, modified: stat.mtime }] : [];
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Structured log records for an app's output: one entry per line, with the
+ * stream it came from and a severity, read from Chromium's log prefix when present
+ */
+
+// 'server' for notes the server adds itself; 'console', 'exception' and 'browser' for what pages report over CDP
+export type LogStream = 'stdout' | 'stderr' | 'server' | 'console' | 'exception' | 'browser';
+export type LogLevel = 'verbose' | 'info' | 'warning' | 'error' | 'fatal';
+
+export interface LogEntry {
+  seq?: number; // Position in the process's log, assigned when stored; keeps increasing as old entries are dropped
+  time: Date;
+  stream: LogStream;
+  level: LogLevel;
+  source?: string; // Source file and line from Chromium's prefix, e.g. "gpu_init.cc(523)", or what a page message came from
+  message: string;
+  raw?: string; // The line as the app printed it, when a Chromium prefix was read off it
+  targetId?: string; // Page the entry came from
+  url?: string; // URL of that page at the time
+  args?: string[]; // Previews of the arguments of a console call
+  stackTrace?: string[];
+}
+
+export interface LineSplitter {
+  pending: string; // Start of a line whose end hasn't arrived yet
+}
+
+// A line this long without a newline is emitted anyway rather than buffered forever
+export const MAX_PENDING_LINE_LENGTH = 64 * 1024;
+
+// [pid:tid:MMDD/HHMMSS.micros:LEVEL:file.cc(123)] message; the ID and time fields depend on
+// the platform and logging flags, so all of them are optional
+const CHROMIUM_LOG_PREFIX = /^\[(?:\d+:){0,3}(?:\d{4}\/\d{6}(?:\.\d+)?:)?(VERBOSE\d*|INFO|WARNING|ERROR|FATAL):([^\]]+)\] ?/;
+
+export function createLineSplitter(): LineSplitter {
+  return { pending: '' };
+}
+
+/**
+ * Complete lines of a chunk of output, holding back a trailing partial line until its end arrives
+ */
+export function splitLines(splitter: LineSplitter, chunk: string): string[] {
+  const lines = (splitter.pending + chunk).split(/\r?\n/);
+  splitter.pending = lines.pop() ?? '';
+  if (splitter.pending.length > MAX_PENDING_LINE_LENGTH) {
+    lines.push(splitter.pending);
+    splitter.pending = '';
+  }
+  return lines;
+}
+
+/**
+ * The partial line left when the stream ends, if any
+ */
+export function flushLines(splitter: LineSplitter): string[] {
+  const rest = splitter.pending;
+  splitter.pending = '';
+  return rest ? [rest] : [];
+}
+
+/**
+ * Severity and source file from a line logged by Chromium with --enable-logging
+ */
+export function parseChromiumLogLine(line: string): { level: LogLevel; source: string; message: string } | undefined {
+  const match = CHROMIUM_LOG_PREFIX.exec(line);
+  if (!match) {
+    return undefined;
+  }
+  const severity = match[1];
+  const level: LogLevel = severity.startsWith('VERBOSE') ? 'verbose' : severity.toLowerCase() as LogLevel;
+  return { level, source: match[2], message: line.slice(match[0].length) };
+}
+
+/**
+ * An entry for one line of output. Lines without Chromium's prefix are taken as
+ * info on stdout and warnings on stderr, where Chromium also prints notices such
+ * as "DevTools listening on ...".
+ */
+export function createLogEntry(stream: 'stdout' | 'stderr' | 'server', line: string, time: Date = new Date()): LogEntry {
+  const parsed = stream === 'server' ? undefined : parseChromiumLogLine(line);
+  if (parsed) {
+    return { time, stream, ...parsed, raw: line };
+  }
+  return { time, stream, level: stream === 'stderr' ? 'warning' : 'info', message: line };
+}
+
+/**
+ * Plain-text log, one line per entry plus the stack of exceptions. Output lines
+ * are kept as printed; page messages get their severity, source and target.
+ */
+export function formatLogText(entries: LogEntry[]): string {
+  return entries.map(entry => {
+    if (entry.raw !== undefined) {
+      return entry.raw;
+    }
+    let line = entry.message;
+    if (entry.source) {
+      line = `[${entry.level.toUpperCase()}:${entry.source}] ${line}`;
+    }
+    if (entry.targetId) {
+      line = `[${entry.targetId}] ${line}`;
+    }
+    if (entry.stream === 'exception' && entry.stackTrace) {
+      line += entry.stackTrace.map(frame => `\n    at ${frame}`).join('');
+    }
+    return line;
+  }).join('\n');
+}
@@ -0,0 +1,75 @@
+import { LogEntry, LogLevel } from './logEntries.js';
+
+/**
+ * Filtering for electron_logs, and the cursor that lets a caller fetch only
+ * the entries logged since its previous read
+ */
+
+export interface LogQuery {
+  pattern?: string;
+  regex?: boolean; // Treat pattern as a regular expression instead of a substring
+  level?: LogLevel; // Minimum severity
+  since?: Date;
+  until?: Date;
+  afterSeq?: number; // Only entries logged after this one, from a cursor
+}
+
+export type LogCursor = Record<string, number>; // Last sequence number read, per process ID
+
+export const LOG_LEVELS: LogLevel[] = ['verbose', 'info', 'warning', 'error', 'fatal'];
+
+/**
+ * Builds the message test for a query, rejecting invalid regular expressions up front
+ */
+export function compileLogPattern(pattern: string, regex: boolean = false): (message: string) => boolean {
+  if (!regex) {
+    return message => message.includes(pattern);
+  }
+  let compiled: RegExp;
+  try {
+    compiled = new RegExp(pattern);
+  } catch (err) {
+    throw new Error(`Invalid log pattern: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return message => compiled.test(message);
+}
+
+export function filterLogEntries(entries: LogEntry[], query: LogQuery): LogEntry[] {
+  const matches = query.pattern !== undefined ? compileLogPattern(query.pattern, query.regex) : undefined;
+  const minLevel = query.level ? LOG_LEVELS.indexOf(query.level) : 0;
+  return entries.filter(entry =>
+    (query.afterSeq === undefined || (entry.seq ?? 0) > query.afterSeq) &&
+    LOG_LEVELS.indexOf(entry.level) >= minLevel &&
+    (!query.since || entry.time >= query.since) &&
+    (!query.until || entry.time <= query.until) &&
+    (!matches || matches(entry.message))
+  );
+}
+
+export function encodeLogCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeLogCursor(cursor: string): LogCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (decoded && typeof decoded === 'object' && !Array.isArray(decoded) &&
+        Object.values(decoded).every(seq => typeof seq === 'number')) {
+      return decoded as LogCursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid log cursor; pass the nextCursor of an earlier electron_logs result');
+}
+
+/**
+ * Reads a since/until bound given as an ISO 8601 timestamp or milliseconds since the epoch
+ */
+export function parseTimeBound(value: string | number, name: string): Date {
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new Error(`Invalid ${name} time: ${value}`);
+  }
+  return time;
+}
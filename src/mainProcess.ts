@@ -0,0 +1,32 @@
+/**
+ * Helpers for debugging the Electron main process through the Node inspector
+ */
+
+// Target ID under which the main process appears next to the renderer targets
+export const MAIN_PROCESS_TARGET_ID = 'main';
+
+export type MainProcessInspectMode = 'inspect' | 'inspect-brk';
+
+export const DEFAULT_INSPECT_PORT = 9229;
+
+/**
+ * Command line switch that enables the Node inspector for the main process
+ */
+export function buildInspectArg(mode: MainProcessInspectMode, port: number): string {
+  return `--${mode}=${port}`;
+}
+
+/**
+ * Wraps an expression so it runs with `app`, `BrowserWindow`, `ipcMain` and the
+ * rest of the `electron` module in scope. Direct eval keeps the expression's
+ * completion value, so statements work the same as in the DevTools console.
+ */
+export function wrapMainProcessExpression(expression: string): string {
+  return [
+    '(() => {',
+    "  const electron = (typeof require === 'function' ? require : process.mainModule.require)('electron');",
+    '  const { app, BrowserWindow, ipcMain } = electron;',
+    `  return eval(${JSON.stringify(expression)});`,
+    '})()'
+  ].join('\n');
+}
@@ -0,0 +1,151 @@
+import { ElectronProcessType } from './processMetrics.js';
+
+/**
+ * Time series of process and target metrics, kept in a fixed-size ring buffer
+ * so sampling can run for hours without growing
+ */
+
+export interface ProcessStatsSample {
+  pid: number;
+  type: ElectronProcessType;
+  cpuPercent?: number;
+  rssBytes?: number;
+}
+
+export interface MetricsSample {
+  time: Date;
+  processes: ProcessStatsSample[];
+  targets: Record<string, Record<string, number>>; // Performance.getMetrics values per target ID
+}
+
+export interface SeriesSummary {
+  count: number;
+  min: number;
+  max: number;
+  first: number;
+  last: number;
+  slopePerSecond: number; // Least-squares trend; a steadily positive heap slope suggests a leak
+}
+
+export interface RingBuffer<T> {
+  capacity: number;
+  items: T[];
+  next: number; // Slot the next item goes into once the buffer is full
+}
+
+// Performance.getMetrics reports a few dozen values; these are the ones worth a trend
+export const TRACKED_TARGET_METRICS = [
+  'JSHeapUsedSize',
+  'JSHeapTotalSize',
+  'Nodes',
+  'Documents',
+  'Frames',
+  'JSEventListeners',
+  'LayoutCount',
+  'RecalcStyleCount',
+  'TaskDuration'
+];
+
+export const DEFAULT_SAMPLE_INTERVAL_MS = 5000;
+export const MIN_SAMPLE_INTERVAL_MS = 250;
+export const DEFAULT_SAMPLE_CAPACITY = 720; // An hour at the default interval
+
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new Error(`Ring buffer capacity must be a positive integer, got ${capacity}`);
+  }
+  return { capacity, items: [], next: 0 };
+}
+
+export function pushToRing<T>(ring: RingBuffer<T>, item: T): void {
+  if (ring.items.length < ring.capacity) {
+    ring.items.push(item);
+    return;
+  }
+  ring.items[ring.next] = item;
+  ring.next = (ring.next + 1) % ring.capacity;
+}
+
+/**
+ * Items oldest first
+ */
+export function ringToArray<T>(ring: RingBuffer<T>): T[] {
+  return [...ring.items.slice(ring.next), ...ring.items.slice(0, ring.next)];
+}
+
+/**
+ * A copy of the ring with a new capacity, keeping the most recent items
+ */
+export function resizeRing<T>(ring: RingBuffer<T>, capacity: number): RingBuffer<T> {
+  const resized = createRingBuffer<T>(capacity);
+  for (const item of ringToArray(ring).slice(-capacity)) {
+    pushToRing(resized, item);
+  }
+  return resized;
+}
+
+/**
+ * Splits samples into named series, e.g. "process:4242:renderer:rssBytes" or "target:page-1:JSHeapUsedSize"
+ */
+export function extractSeries(samples: MetricsSample[]): Map<string, Array<{ time: number; value: number }>> {
+  const series = new Map<string, Array<{ time: number; value: number }>>();
+  const add = (name: string, time: number, value: number | undefined) => {
+    if (value === undefined || !Number.isFinite(value)) {
+      return;
+    }
+    const points = series.get(name) ?? [];
+    points.push({ time, value });
+    series.set(name, points);
+  };
+
+  for (const sample of samples) {
+    const time = sample.time.getTime();
+    for (const proc of sample.processes) {
+      add(`process:${proc.pid}:${proc.type}:cpuPercent`, time, proc.cpuPercent);
+      add(`process:${proc.pid}:${proc.type}:rssBytes`, time, proc.rssBytes);
+    }
+    for (const [targetId, metrics] of Object.entries(sample.targets)) {
+      for (const [name, value] of Object.entries(metrics)) {
+        add(`target:${targetId}:${name}`, time, value);
+      }
+    }
+  }
+  return series;
+}
+
+export function summarizeSeries(points: Array<{ time: number; value: number }>): SeriesSummary {
+  const values = points.map(p => p.value);
+  return {
+    count: points.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    first: values[0],
+    last: values[values.length - 1],
+    slopePerSecond: leastSquaresSlope(points)
+  };
+}
+
+function leastSquaresSlope(points: Array<{ time: number; value: number }>): number {
+  if (points.length < 2) {
+    return 0;
+  }
+  const t0 = points[0].time;
+  const xs = points.map(p => (p.time - t0) / 1000);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < points.length; i++) {
+    covariance += (xs[i] - meanX) * (points[i].value - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  return variance === 0 ? 0 : covariance / variance;
+}
+
+export function summarizeSamples(samples: MetricsSample[]): Record<string, SeriesSummary> {
+  const summaries: Record<string, SeriesSummary> = {};
+  for (const [name, points] of extractSeries(samples)) {
+    summaries[name] = summarizeSeries(points);
+  }
+  return summaries;
+}
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseProcStat, listProcessIds } from './procfs.js';
+
+/**
+ * Launched apps carry the PID of the server that started them in their
+ * environment. Renderer, GPU and utility processes inherit it, so anything
+ * still carrying a dead server's PID was orphaned by a previous instance.
+ */
+export const SERVER_PID_ENV = 'ELECTRON_DEBUG_MCP_SERVER_PID';
+
+export interface OrphanProcessGroup {
+  pgid: number; // Process group of the orphaned app, led by its main process
+  pids: number[];
+  command: string; // Command line of the group leader, or of the first process found
+  serverPid: number; // PID of the server instance that launched it
+}
+
+/**
+ * Parses a NUL-separated /proc/<pid>/environ buffer
+ */
+export function parseEnviron(contents: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const entry of contents.split('\0')) {
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      env[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+  }
+  return env;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means it exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+interface MarkedProcess {
+  pid: number;
+  pgid: number;
+  serverPid: number;
+}
+
+/**
+ * Every process whose environment carries a server's PID, read from /proc.
+ * Only Linux exposes other processes' environments, so elsewhere this finds nothing.
+ */
+function findMarkedProcesses(procRoot: string): MarkedProcess[] {
+  const marked: MarkedProcess[] = [];
+  for (const pid of listProcessIds(procRoot)) {
+    try {
+      const env = parseEnviron(fs.readFileSync(path.join(procRoot, String(pid), 'environ'), 'utf8'));
+      const serverPid = parseInt(env[SERVER_PID_ENV] ?? '', 10);
+      if (Number.isNaN(serverPid)) {
+        continue;
+      }
+      const pgid = parseProcStat(fs.readFileSync(path.join(procRoot, String(pid), 'stat'), 'utf8'))?.pgid ?? pid;
+      marked.push({ pid, pgid, serverPid });
+    } catch {
+      // Exited meanwhile, or not ours to read
+    }
+  }
+  return marked;
+}
+
+/**
+ * Finds processes launched by server instances that are no longer running
+ */
+export function findOrphanedProcesses(
+  procRoot: string = '/proc',
+  isServerAlive: (pid: number) => boolean = isProcessAlive
+): OrphanProcessGroup[] {
+  const groups = new Map<number, OrphanProcessGroup>();
+
+  for (const { pid, pgid, serverPid } of findMarkedProcesses(procRoot)) {
+    if (serverPid === process.pid || isServerAlive(serverPid)) {
+      continue;
+    }
+
+    let command: string;
+    try {
+      command = fs.readFileSync(path.join(procRoot, String(pid), 'cmdline'), 'utf8').split('\0').join(' ').trim();
+    } catch {
+      continue; // Exited meanwhile
+    }
+
+    const group = groups.get(pgid);
+    if (group) {
+      group.pids.push(pid);
+      if (pid === pgid) {
+        group.command = command;
+      }
+    } else {
+      groups.set(pgid, { pgid, pids: [pid], command, serverPid });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Whether a process group still holds processes launched by a server. Once
+ * its leader has exited, a group can empty and its ID be reused by a process
+ * that has nothing to do with us.
+ */
+export function groupHasMarkedProcesses(pgid: number, serverPid: number = process.pid, procRoot: string = '/proc'): boolean {
+  return findMarkedProcesses(procRoot).some(p => p.pgid === pgid && p.serverPid === serverPid);
+}
+
+/**
+ * Members of a group that still carry the marker of the server that launched
+ * it. PIDs are reused, so a group found earlier may since have been replaced
+ * by processes that have nothing to do with us.
+ */
+export function confirmOrphanGroup(group: OrphanProcessGroup, procRoot: string = '/proc'): number[] {
+  return group.pids.filter(pid => {
+    try {
+      const env = parseEnviron(fs.readFileSync(path.join(procRoot, String(pid), 'environ'), 'utf8'));
+      const pgid = parseProcStat(fs.readFileSync(path.join(procRoot, String(pid), 'stat'), 'utf8'))?.pgid;
+      return env[SERVER_PID_ENV] === String(group.serverPid) && pgid === group.pgid;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Kills orphaned process groups and returns the groups that were signalled.
+ * Each group is checked against /proc right before it is killed and skipped
+ * if none of its processes still carry the dead server's marker.
+ */
+export function reapOrphans(
+  groups: OrphanProcessGroup[],
+  procRoot: string = '/proc',
+  kill: (pid: number, signal: NodeJS.Signals) => void = (pid, signal) => process.kill(pid, signal)
+): number[] {
+  const reaped: number[] = [];
+  for (const group of groups) {
+    const pids = confirmOrphanGroup(group, procRoot);
+    if (pids.length === 0) {
+      continue;
+    }
+    try {
+      kill(-group.pgid, 'SIGKILL');
+      reaped.push(group.pgid);
+    } catch {
+      // Group is gone; kill any stragglers that left it
+      for (const pid of pids) {
+        try {
+          kill(pid, 'SIGKILL');
+          reaped.push(group.pgid);
+        } catch {
+          // Already gone
+        }
+      }
+    }
+  }
+  return Array.from(new Set(reaped));
+}
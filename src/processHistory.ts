@@ -0,0 +1,93 @@
+import { CrashRecord } from './supervisor.js';
+import { LogEntry } from './logEntries.js';
+
+/**
+ * Post-mortem records of processes that are no longer managed, so their
+ * logs and exit details outlive the process itself
+ */
+
+export type FinalStatus = 'stopped' | 'crashed' | 'detached';
+
+export interface SeenTarget {
+  id: string;
+  type: string;
+  title: string;
+  url: string;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export interface ProcessHistoryEntry {
+  id: string;
+  name: string;
+  mode: 'launched' | 'attached';
+  finalStatus: FinalStatus;
+  pid?: number;
+  host: string;
+  debugPort?: number;
+  appPath?: string;
+  executablePath?: string;
+  startTime: Date;
+  endTime: Date;
+  exitCode: number | null;
+  signal: string | null;
+  exitMethod?: string; // How electron_stop ended it, when it was stopped on request
+  restartCount: number;
+  crashes: CrashRecord[];
+  targetsSeen: SeenTarget[];
+  logs: LogEntry[];
+}
+
+export type ProcessHistorySummary = Omit<ProcessHistoryEntry, 'logs' | 'crashes' | 'targetsSeen'> & {
+  crashes: number;
+  targetsSeen: number;
+  logEntries: number;
+};
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Remembers every target listed for a process, including ones that have since gone away
+ */
+export function recordTargetsSeen(
+  seen: Map<string, SeenTarget>,
+  targets: Array<{ id: string; type: string; title: string; url: string }>,
+  time: Date = new Date()
+): void {
+  for (const target of targets) {
+    const existing = seen.get(target.id);
+    if (existing) {
+      // Pages navigate, so keep the latest URL and title
+      existing.title = target.title;
+      existing.url = target.url;
+      existing.lastSeen = time;
+    } else {
+      seen.set(target.id, { id: target.id, type: target.type, title: target.title, url: target.url, firstSeen: time, lastSeen: time });
+    }
+  }
+}
+
+/**
+ * Adds an entry, dropping the oldest beyond MAX_HISTORY_ENTRIES
+ */
+export function addHistoryEntry(history: Map<string, ProcessHistoryEntry>, entry: ProcessHistoryEntry): void {
+  // Re-adding moves the entry to the end of the insertion order
+  history.delete(entry.id);
+  history.set(entry.id, entry);
+  for (const id of history.keys()) {
+    if (history.size <= MAX_HISTORY_ENTRIES) {
+      break;
+    }
+    history.delete(id);
+  }
+}
+
+export function summarizeHistoryEntry(entry: ProcessHistoryEntry): ProcessHistorySummary {
+  const { logs, crashes, targetsSeen, ...rest } = entry;
+  return {
+    ...rest,
+    crashes: crashes.length,
+    targetsSeen: targetsSeen.length,
+    logEntries: logs.length
+  };
+}
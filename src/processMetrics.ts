@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseProcStat, listProcessIds } from './procfs.js';
+
+/**
+ * Per-process figures for an Electron app: its process tree from /proc (Linux)
+ * and from SystemInfo.getProcessInfo, CPU% from two samples, and which CDP
+ * targets each renderer process hosts
+ */
+
+export type ElectronProcessType = 'browser' | 'renderer' | 'gpu' | 'utility' | 'zygote' | 'other';
+
+export interface ProcessSample {
+  pid: number;
+  ppid?: number;
+  type: ElectronProcessType;
+  cpuSeconds?: number; // CPU time used since the process started
+  rssBytes?: number;
+}
+
+export interface ProcessTreeSample {
+  time: number;
+  processes: ProcessSample[];
+}
+
+export interface ProcessMetrics {
+  pid: number;
+  type: ElectronProcessType;
+  cpuPercent?: number; // Of one core, over the sampling window; absent when unknown
+  rssBytes?: number;
+  jsHeapUsedBytes?: number;
+  jsHeapTotalBytes?: number;
+  targetIds: string[]; // CDP targets this process hosts
+}
+
+export interface WebContentsProcess {
+  pid: number;
+  url: string;
+  title: string;
+}
+
+// USER_HZ, which /proc reports CPU times in; 100 on every mainstream Linux build
+export const CLOCK_TICKS_PER_SECOND = 100;
+
+/**
+ * Process type from Chromium's --type switch; the browser (main) process has none
+ */
+export function processTypeFromCommandLine(args: string[]): ElectronProcessType {
+  const typeArg = args.find(arg => arg.startsWith('--type='));
+  if (!typeArg) {
+    return 'browser';
+  }
+  switch (typeArg.slice('--type='.length)) {
+    case 'renderer':
+      return 'renderer';
+    case 'gpu-process':
+      return 'gpu';
+    case 'utility':
+      return 'utility';
+    case 'zygote':
+      return 'zygote';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Process type as reported by SystemInfo.getProcessInfo ("browser", "renderer", "GPU", ...)
+ */
+export function processTypeFromSystemInfo(type: string): ElectronProcessType {
+  switch (type.toLowerCase()) {
+    case 'browser':
+      return 'browser';
+    case 'renderer':
+      return 'renderer';
+    case 'gpu':
+      return 'gpu';
+    case 'utility':
+      return 'utility';
+    case 'zygote':
+      return 'zygote';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Resident set size from the VmRSS line of /proc/<pid>/status
+ */
+export function parseVmRss(status: string): number | undefined {
+  const match = /^VmRSS:\s+(\d+)\s+kB/m.exec(status);
+  return match ? parseInt(match[1], 10) * 1024 : undefined;
+}
+
+/**
+ * Reads a process and all its descendants from /proc. Only Linux has /proc, so elsewhere this finds nothing.
+ */
+export function readProcessTree(rootPid: number, procRoot: string = '/proc'): ProcessSample[] {
+  const samples = new Map<number, ProcessSample>();
+  const children = new Map<number, number[]>();
+  for (const pid of listProcessIds(procRoot)) {
+    const dir = path.join(procRoot, String(pid));
+    try {
+      const stat = parseProcStat(fs.readFileSync(path.join(dir, 'stat'), 'utf8'));
+      if (!stat) {
+        continue;
+      }
+      const args = fs.readFileSync(path.join(dir, 'cmdline'), 'utf8').split('\0');
+      samples.set(pid, {
+        pid,
+        ppid: stat.ppid,
+        type: processTypeFromCommandLine(args),
+        cpuSeconds: stat.cpuTicks !== undefined ? stat.cpuTicks / CLOCK_TICKS_PER_SECOND : undefined,
+        rssBytes: parseVmRss(fs.readFileSync(path.join(dir, 'status'), 'utf8'))
+      });
+      children.set(stat.ppid, [...(children.get(stat.ppid) ?? []), pid]);
+    } catch {
+      // Exited meanwhile, or not ours to read
+    }
+  }
+
+  const tree: ProcessSample[] = [];
+  const queue = [rootPid];
+  while (queue.length > 0) {
+    const pid = queue.shift()!;
+    const sample = samples.get(pid);
+    if (sample && !tree.includes(sample)) {
+      tree.push(sample);
+      queue.push(...(children.get(pid) ?? []));
+    }
+  }
+  return tree;
+}
+
+/**
+ * Combines /proc samples with SystemInfo.getProcessInfo results. Chromium knows
+ * the process types best; /proc has RSS and also sees processes Chromium doesn't list.
+ */
+export function mergeProcessSamples(procSamples: ProcessSample[], systemInfo: ProcessSample[]): ProcessSample[] {
+  const merged = new Map<number, ProcessSample>();
+  for (const sample of procSamples) {
+    merged.set(sample.pid, { ...sample });
+  }
+  for (const sample of systemInfo) {
+    const existing = merged.get(sample.pid);
+    merged.set(sample.pid, existing
+      ? { ...existing, type: sample.type, cpuSeconds: existing.cpuSeconds ?? sample.cpuSeconds }
+      : { ...sample });
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * CPU% per PID between two samples; processes missing from the earlier one have no figure
+ */
+export function computeCpuPercents(previous: ProcessTreeSample, current: ProcessTreeSample): Map<number, number> {
+  const percents = new Map<number, number>();
+  const elapsedSeconds = (current.time - previous.time) / 1000;
+  if (elapsedSeconds <= 0) {
+    return percents;
+  }
+
+  const before = new Map(previous.processes.map(p => [p.pid, p.cpuSeconds]));
+  for (const sample of current.processes) {
+    const earlier = before.get(sample.pid);
+    if (earlier !== undefined && sample.cpuSeconds !== undefined) {
+      const percent = (sample.cpuSeconds - earlier) / elapsedSeconds * 100;
+      percents.set(sample.pid, Math.max(0, Math.round(percent * 10) / 10));
+    }
+  }
+  return percents;
+}
+
+/**
+ * Maps CDP targets to renderer PIDs using the main process's webContents list,
+ * matching on URL and, where several share a URL, on title too
+ */
+export function matchTargetsToWebContents(
+  targets: Array<{ id: string; url: string; title: string }>,
+  webContents: WebContentsProcess[]
+): Map<string, number> {
+  const pids = new Map<string, number>();
+  for (const target of targets) {
+    const sameUrl = webContents.filter(wc => wc.url === target.url);
+    const candidates = sameUrl.length > 1 ? sameUrl.filter(wc => wc.title === target.title) : sameUrl;
+    // Only trust an unambiguous match
+    const renderers = new Set(candidates.map(wc => wc.pid));
+    if (renderers.size === 1) {
+      pids.set(target.id, candidates[0].pid);
+    }
+  }
+  return pids;
+}
@@ -0,0 +1,131 @@
+import { ChildProcess, spawnSync } from 'child_process';
+import { groupHasMarkedProcesses } from './orphanSweep.js';
+
+export type ExitMethod = 'quit' | 'sigterm' | 'sigkill' | 'already-exited';
+
+export interface ExitResult {
+  method: ExitMethod; // Which step actually ended the process
+  exitCode: number | null;
+  signal: string | null;
+  durationMs: number;
+}
+
+export interface ShutdownOptions {
+  gracePeriodMs?: number; // How long each step may take before escalating
+  requestQuit?: () => Promise<unknown>; // Asks the app to quit by itself, e.g. app.quit()
+}
+
+export const DEFAULT_GRACE_PERIOD_MS = 5000;
+
+function hasExited(child: ChildProcess): boolean {
+  return child.exitCode !== null || child.signalCode !== null;
+}
+
+/**
+ * Resolves true once the child exits, or false after timeoutMs
+ */
+export function waitForExit(child: ChildProcess, timeoutMs: number): Promise<boolean> {
+  if (hasExited(child)) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      child.off('exit', onExit);
+      resolve(false);
+    }, timeoutMs);
+    const onExit = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    child.once('exit', onExit);
+  });
+}
+
+/**
+ * Sends a signal to a process and everything in its process group.
+ * On POSIX this relies on the child having been spawned with `detached: true`,
+ * which makes it the leader of its own group; GPU, utility and renderer
+ * processes inherit that group. Returns false when nothing was left to signal.
+ */
+export function signalProcessTree(pid: number, signal: NodeJS.Signals): boolean {
+  if (process.platform === 'win32') {
+    const args = ['/pid', String(pid), '/T'];
+    if (signal === 'SIGKILL') {
+      args.push('/F');
+    }
+    return spawnSync('taskkill', args, { stdio: 'ignore' }).status === 0;
+  }
+
+  try {
+    process.kill(-pid, signal);
+    return true;
+  } catch {
+    // Not a group leader (or already gone): fall back to the process itself
+    try {
+      process.kill(pid, signal);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Stops a child process: ask it to quit, then SIGTERM, then SIGKILL on the
+ * whole process group, waiting up to the grace period between steps.
+ * Stragglers in the group are killed even when the main process exits cleanly.
+ * An app that had already exited only has its group killed while /proc shows
+ * processes this server launched still in it.
+ */
+export async function shutdownProcess(child: ChildProcess, options: ShutdownOptions = {}): Promise<ExitResult> {
+  const gracePeriodMs = options.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS;
+  const startedAt = Date.now();
+  const pid = child.pid;
+
+  const result = (method: ExitMethod): ExitResult => ({
+    method,
+    exitCode: child.exitCode,
+    signal: child.signalCode,
+    durationMs: Date.now() - startedAt
+  });
+
+  const reapGroup = () => {
+    if (pid === undefined || process.platform === 'win32') {
+      return;
+    }
+    try {
+      // Only the group: the leader's PID may already belong to someone else
+      process.kill(-pid, 'SIGKILL');
+    } catch {
+      // Nothing left in the group
+    }
+  };
+
+  if (hasExited(child) || pid === undefined) {
+    // It may have exited long ago, so its group ID is only ours while our processes are in it
+    if (pid !== undefined && groupHasMarkedProcesses(pid)) {
+      reapGroup();
+    }
+    return result('already-exited');
+  }
+
+  if (options.requestQuit) {
+    // The quit request may never answer (e.g. a paused main process), so only its effect counts
+    options.requestQuit().catch(() => undefined);
+    if (await waitForExit(child, gracePeriodMs)) {
+      reapGroup();
+      return result('quit');
+    }
+  }
+
+  signalProcessTree(pid, 'SIGTERM');
+  if (await waitForExit(child, gracePeriodMs)) {
+    reapGroup();
+    return result('sigterm');
+  }
+
+  signalProcessTree(pid, 'SIGKILL');
+  await waitForExit(child, gracePeriodMs);
+  return result('sigkill');
+}
@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+
+/**
+ * What the process tools read from /proc. Only Linux has it, so elsewhere
+ * scanning finds no processes.
+ */
+
+export interface ProcStat {
+  ppid: number;
+  pgid: number; // Process group
+  cpuTicks?: number; // User plus system CPU time, in clock ticks
+}
+
+/**
+ * Fields of /proc/<pid>/stat. The command name may contain spaces and
+ * parentheses, so fields are counted from the last ')'.
+ */
+export function parseProcStat(stat: string): ProcStat | undefined {
+  const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+  // fields[0] is the state, then ppid and pgrp; utime and stime are fields 14 and 15 of the full line
+  const ppid = parseInt(fields[1], 10);
+  const pgid = parseInt(fields[2], 10);
+  if (Number.isNaN(ppid) || Number.isNaN(pgid)) {
+    return undefined;
+  }
+  const utime = parseInt(fields[11], 10);
+  const stime = parseInt(fields[12], 10);
+  return { ppid, pgid, cpuTicks: Number.isNaN(utime) || Number.isNaN(stime) ? undefined : utime + stime };
+}
+
+/**
+ * PIDs of all processes currently in /proc
+ */
+export function listProcessIds(procRoot: string = '/proc'): number[] {
+  if (process.platform !== 'linux' && procRoot === '/proc') {
+    return [];
+  }
+
+  try {
+    return fs.readdirSync(procRoot).filter(entry => /^\d+$/.test(entry)).map(entry => parseInt(entry, 10));
+  } catch {
+    return [];
+  }
+}
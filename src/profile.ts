@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Disposable --user-data-dir profiles, so launches don't share state with each
+ * other or with the developer's own profile
+ */
+
+export const TEMP_PROFILE_PREFIX = 'electron-debug-mcp-profile-';
+
+/**
+ * Creates an empty temporary profile, or a copy of the fixture directory
+ */
+export function createTemporaryProfile(fixtureDir?: string): string {
+  if (fixtureDir !== undefined && !fs.statSync(fixtureDir, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new Error(`Profile fixture ${fixtureDir} is not a directory`);
+  }
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), TEMP_PROFILE_PREFIX));
+  if (fixtureDir !== undefined) {
+    try {
+      fs.cpSync(fixtureDir, dir, { recursive: true });
+    } catch (err) {
+      fs.rmSync(dir, { recursive: true, force: true });
+      throw new Error(`Could not copy profile fixture ${fixtureDir}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return dir;
+}
+
+/**
+ * Deletes a temporary profile. Best-effort: a leftover directory in tmp is harmless.
+ */
+export function removeTemporaryProfile(dir: string): boolean {
+  try {
+    fs.rmSync(dir, { recursive: true, force: true, maxRetries: 3 });
+    return true;
+  } catch {
+    return false;
+  }
+}
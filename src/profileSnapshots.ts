@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Named copies of a userData directory, taken from one run and used to start later ones
+ */
+
+export const SNAPSHOT_DIR_ENV = 'ELECTRON_DEBUG_MCP_SNAPSHOT_DIR';
+
+// Chromium's per-run lock, socket and port files; copying them would make the next run think the profile is in use
+const TRANSIENT_PROFILE_FILES = new Set(['SingletonLock', 'SingletonSocket', 'SingletonCookie', 'DevToolsActivePort', 'lockfile']);
+
+export interface SnapshotInfo {
+  name: string;
+  path: string;
+  createdAt: Date;
+  sizeBytes: number;
+  files: number;
+}
+
+export function getSnapshotDir(): string {
+  return process.env[SNAPSHOT_DIR_ENV] || path.join(os.homedir(), '.electron-debug-mcp', 'snapshots');
+}
+
+/**
+ * Snapshot names become directory names, so keep them to a safe character set
+ */
+export function validateSnapshotName(name: string): void {
+  if (!/^[A-Za-z0-9._-]+$/.test(name) || name === '.' || name === '..') {
+    throw new Error(`Invalid snapshot name "${name}": use letters, digits, '.', '_' and '-'`);
+  }
+}
+
+/**
+ * Directory holding a snapshot, which must exist
+ */
+export function resolveSnapshot(name: string, snapshotDir: string = getSnapshotDir()): string {
+  validateSnapshotName(name);
+  const dir = path.join(snapshotDir, name);
+  if (!fs.statSync(dir, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new Error(`Snapshot "${name}" not found in ${snapshotDir}`);
+  }
+  return dir;
+}
+
+function copyProfile(source: string, destination: string): void {
+  fs.cpSync(source, destination, {
+    recursive: true,
+    filter: (src) => !TRANSIENT_PROFILE_FILES.has(path.basename(src)) && !fs.lstatSync(src).isSocket()
+  });
+}
+
+function describeSnapshot(name: string, dir: string): SnapshotInfo {
+  let sizeBytes = 0;
+  let files = 0;
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(entryPath);
+      } else {
+        files++;
+        sizeBytes += fs.lstatSync(entryPath).size;
+      }
+    }
+  };
+  walk(dir);
+  return { name, path: dir, createdAt: fs.statSync(dir).mtime, sizeBytes, files };
+}
+
+/**
+ * Copies a userData directory into a named snapshot. The copy is made next to
+ * the snapshot and renamed into place, so a failed copy never leaves half a snapshot.
+ */
+export function saveSnapshot(userDataDir: string, name: string, overwrite: boolean = false, snapshotDir: string = getSnapshotDir()): SnapshotInfo {
+  validateSnapshotName(name);
+  const destination = path.join(snapshotDir, name);
+  if (fs.existsSync(destination) && !overwrite) {
+    throw new Error(`Snapshot "${name}" already exists; pass overwrite to replace it`);
+  }
+
+  fs.mkdirSync(snapshotDir, { recursive: true });
+  const staging = fs.mkdtempSync(path.join(snapshotDir, `.${name}-`));
+  try {
+    copyProfile(userDataDir, staging);
+    fs.rmSync(destination, { recursive: true, force: true });
+    fs.renameSync(staging, destination);
+  } catch (err) {
+    fs.rmSync(staging, { recursive: true, force: true });
+    throw err;
+  }
+  return describeSnapshot(name, destination);
+}
+
+/**
+ * Replaces the contents of a userData directory with a snapshot
+ */
+export function restoreSnapshot(name: string, userDataDir: string, snapshotDir: string = getSnapshotDir()): SnapshotInfo {
+  const source = resolveSnapshot(name, snapshotDir);
+  fs.rmSync(userDataDir, { recursive: true, force: true });
+  fs.mkdirSync(userDataDir, { recursive: true });
+  copyProfile(source, userDataDir);
+  return describeSnapshot(name, source);
+}
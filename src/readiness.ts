@@ -0,0 +1,72 @@
+import { LogEntry } from './logEntries.js';
+
+/**
+ * Conditions electron_start waits for before it reports an app as started.
+ * Every condition given must hold.
+ */
+
+export interface ReadinessCondition {
+  targetUrl?: string; // Regex a page target's URL must match
+  logLine?: string; // Regex a line of stdout/stderr must match
+  expression?: string; // JavaScript that must evaluate to a truthy value in the page
+  loadEvent?: boolean; // The page must have fired its load event
+}
+
+interface PageTargetSummary {
+  id: string;
+  type: string;
+  url: string;
+}
+
+/**
+ * Compiles the patterns up front, so a typo fails before anything is launched
+ */
+export function compileReadinessPatterns(condition: ReadinessCondition): { targetUrl?: RegExp; logLine?: RegExp } {
+  try {
+    return {
+      targetUrl: condition.targetUrl !== undefined ? new RegExp(condition.targetUrl) : undefined,
+      logLine: condition.logLine !== undefined ? new RegExp(condition.logLine) : undefined
+    };
+  } catch (err) {
+    throw new Error(`Invalid readiness pattern: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * The page target the page-level conditions apply to: the first whose URL matches, or the first page
+ */
+export function findReadinessTarget<T extends PageTargetSummary>(targets: T[], urlPattern?: RegExp): T | undefined {
+  return targets.find(t => t.type === 'page' && (!urlPattern || urlPattern.test(t.url)));
+}
+
+export function logsMatch(logs: LogEntry[], pattern: RegExp): boolean {
+  return logs.some(entry => pattern.test(entry.message));
+}
+
+/**
+ * Reads a Runtime.evaluate response made with returnByValue
+ */
+export function isTruthyEvaluation(response: unknown): boolean {
+  const { result, exceptionDetails } = (response ?? {}) as { result?: { value?: unknown }; exceptionDetails?: unknown };
+  return !exceptionDetails && !!result?.value;
+}
+
+/**
+ * Human-readable form of a condition, used to say what was still missing on timeout
+ */
+export function describeReadinessConditions(condition: ReadinessCondition): string[] {
+  const descriptions: string[] = [];
+  if (condition.targetUrl !== undefined) {
+    descriptions.push(`a page target with URL matching /${condition.targetUrl}/`);
+  }
+  if (condition.logLine !== undefined) {
+    descriptions.push(`a log line matching /${condition.logLine}/`);
+  }
+  if (condition.expression !== undefined) {
+    descriptions.push(`\`${condition.expression}\` to be truthy`);
+  }
+  if (condition.loadEvent) {
+    descriptions.push('the load event');
+  }
+  return descriptions;
+}
@@ -0,0 +1,101 @@
+import { ELECTRON_RESOURCES, parseElectronResourceUri } from './resourceRouting.js';
+
+/**
+ * Resource subscriptions and the notifications that keep clients current.
+ * Apps can log many lines a second, so changes are collected for a short
+ * while and each changed resource is announced once.
+ */
+
+export const RESOURCE_NOTIFY_DELAY_MS = 100;
+
+// Resources whose content changes while an app runs
+const SUBSCRIBABLE_KINDS = new Set(['logs', 'process', 'targets', 'events']);
+
+export interface ResourceNotifier {
+  subscriptions: Set<string>;
+  pending: Set<string>; // Subscribed URIs that changed since the last flush
+  listChanged: boolean;
+  flushTimer?: NodeJS.Timeout;
+  send?: { // Set once the server exists; rejects while no client is connected
+    updated: (uri: string) => Promise<void>;
+    listChanged: () => Promise<void>;
+  };
+}
+
+export type ProcessChange = 'logs' | 'state'; // state: status or targets
+
+export function createResourceNotifier(): ResourceNotifier {
+  return { subscriptions: new Set<string>(), pending: new Set<string>(), listChanged: false };
+}
+
+export function subscribeResource(notifier: ResourceNotifier, uri: string): void {
+  if (!SUBSCRIBABLE_KINDS.has(parseElectronResourceUri(uri).kind)) {
+    throw new Error(`Resource cannot be subscribed to: ${uri}; only logs, process, targets and events resources change`);
+  }
+  notifier.subscriptions.add(uri);
+}
+
+export function unsubscribeResource(notifier: ResourceNotifier, uri: string): void {
+  notifier.subscriptions.delete(uri);
+  notifier.pending.delete(uri);
+}
+
+/**
+ * Resources of a process whose content a change affects
+ */
+export function processResourceUris(processId: string, change: ProcessChange): string[] {
+  if (change === 'logs') {
+    return [`${ELECTRON_RESOURCES.LOGS}${processId}`, `${ELECTRON_RESOURCES.LOGS}${processId}?format=json`];
+  }
+  return [`${ELECTRON_RESOURCES.PROCESS}${processId}`, ELECTRON_RESOURCES.TARGETS];
+}
+
+export function eventsResourceUri(processId: string, targetId: string): string {
+  return `${ELECTRON_RESOURCES.EVENTS}${processId}/${targetId}`;
+}
+
+function scheduleFlush(notifier: ResourceNotifier): void {
+  if (!notifier.flushTimer) {
+    notifier.flushTimer = setTimeout(() => flushResourceNotifications(notifier), RESOURCE_NOTIFY_DELAY_MS);
+    notifier.flushTimer.unref();
+  }
+}
+
+export function notifyResourcesUpdated(notifier: ResourceNotifier, uris: string[]): void {
+  const subscribed = uris.filter(uri => notifier.subscriptions.has(uri));
+  if (subscribed.length === 0) {
+    return;
+  }
+  for (const uri of subscribed) {
+    notifier.pending.add(uri);
+  }
+  scheduleFlush(notifier);
+}
+
+export function notifyResourceListChanged(notifier: ResourceNotifier): void {
+  notifier.listChanged = true;
+  scheduleFlush(notifier);
+}
+
+/**
+ * Sends what has changed so far. Nothing is queued for a client that isn't connected.
+ */
+export function flushResourceNotifications(notifier: ResourceNotifier): void {
+  clearTimeout(notifier.flushTimer);
+  notifier.flushTimer = undefined;
+  const uris = Array.from(notifier.pending);
+  const listChanged = notifier.listChanged;
+  notifier.pending.clear();
+  notifier.listChanged = false;
+
+  const { send } = notifier;
+  if (!send) {
+    return;
+  }
+  if (listChanged) {
+    send.listChanged().catch(() => {});
+  }
+  for (const uri of uris) {
+    send.updated(uri).catch(() => {});
+  }
+}
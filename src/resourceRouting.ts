@@ -3,6 +3,9 @@ export const ELECTRON_RESOURCES = {
   PROCESS: "electron://process/",
   LOGS: "electron://logs/",
   CDP: "electron://cdp/",
+  HISTORY: "electron://history/",
+  METRICS: "electron://metrics/",
+  EVENTS: "electron://events/",
   TARGETS: "electron://targets"
 };
 
@@ -10,8 +13,13 @@ export type ParsedResourceRoute =
   | { kind: 'info' }
   | { kind: 'targets' }
   | { kind: 'process'; processId: string }
-  | { kind: 'logs'; processId: string }
+  | { kind: 'logs'; processId: string; format?: 'json' }
+  | { kind: 'logArchive'; processId: string }
+  | { kind: 'history'; processId: string }
+  | { kind: 'metrics'; processId: string }
+  | { kind: 'events'; processId: string; targetId: string }
   | { kind: 'cdp'; processId: string; targetId: string; commandPath?: string }
+  | { kind: 'cdpProtocol'; processId: string; targetId: string; domain?: string }
   | { kind: 'invalidCdp' }
   | { kind: 'unknown' };
 
@@ -41,6 +49,16 @@ export function parseElectronResourceUri(uri: string): ParsedResourceRoute {
     }
 
     const [processId, targetId, ...commandSegments] = segments;
+    // CDP domains are capitalized, so "protocol" can't be mistaken for one
+    if (commandSegments[0] === 'protocol' && commandSegments.length <= 2) {
+      if (commandSegments.length === 1) {
+        return { kind: 'cdpProtocol', processId, targetId };
+      }
+      if (commandSegments[1]) {
+        return { kind: 'cdpProtocol', processId, targetId, domain: commandSegments[1] };
+      }
+    }
+
     const commandPath = commandSegments.length > 0 ? commandSegments.join('/') : undefined;
 
     if (!commandPath) {
@@ -58,10 +76,38 @@ export function parseElectronResourceUri(uri: string): ParsedResourceRoute {
   }
 
   if (uri.startsWith(ELECTRON_RESOURCES.LOGS)) {
-    const processId = uri.slice(ELECTRON_RESOURCES.LOGS.length);
-    if (processId) {
+    const [path, query] = uri.slice(ELECTRON_RESOURCES.LOGS.length).split('?', 2);
+    const [processId, ...subpath] = path.split('/');
+    if (processId && subpath.length === 1 && subpath[0] === 'archive' && query === undefined) {
+      return { kind: 'logArchive', processId };
+    }
+    if (processId && subpath.length === 0 && query === undefined) {
       return { kind: 'logs', processId };
     }
+    if (processId && subpath.length === 0 && new URLSearchParams(query).get('format') === 'json') {
+      return { kind: 'logs', processId, format: 'json' };
+    }
+  }
+
+  if (uri.startsWith(ELECTRON_RESOURCES.HISTORY)) {
+    const processId = uri.slice(ELECTRON_RESOURCES.HISTORY.length);
+    if (processId) {
+      return { kind: 'history', processId };
+    }
+  }
+
+  if (uri.startsWith(ELECTRON_RESOURCES.METRICS)) {
+    const processId = uri.slice(ELECTRON_RESOURCES.METRICS.length);
+    if (processId) {
+      return { kind: 'metrics', processId };
+    }
+  }
+
+  if (uri.startsWith(ELECTRON_RESOURCES.EVENTS)) {
+    const [processId, targetId, ...rest] = uri.slice(ELECTRON_RESOURCES.EVENTS.length).split('/');
+    if (processId && targetId && rest.length === 0) {
+      return { kind: 'events', processId, targetId };
+    }
   }
 
   return { kind: 'unknown' };
@@ -0,0 +1,72 @@
+import { LogEntry } from './logEntries.js';
+
+/**
+ * Restart policies and crash bookkeeping for launched Electron apps
+ */
+
+export type RestartPolicy = 'never' | 'on-crash' | 'always';
+
+export interface SupervisorOptions {
+  policy: RestartPolicy;
+  maxRestarts: number;
+  backoffMs: number; // Delay before the first restart, doubled for each further one
+}
+
+export interface CrashRecord {
+  time: Date;
+  exitCode: number | null;
+  signal: string | null;
+  uptimeMs: number;
+  restartCount: number; // Restarts that had happened before this crash
+  lastLogLines: string[];
+}
+
+export const DEFAULT_SUPERVISOR_OPTIONS: SupervisorOptions = {
+  policy: 'never',
+  maxRestarts: 5,
+  backoffMs: 1000
+};
+
+export const MAX_RESTART_DELAY_MS = 30000;
+export const MAX_CRASH_RECORDS = 20;
+export const CRASH_LOG_LINES = 50;
+
+/**
+ * Decides whether an exit should be followed by a restart. Exits we asked for never are.
+ */
+export function shouldRestart(options: SupervisorOptions, crashed: boolean, restartCount: number, stopRequested: boolean): boolean {
+  if (stopRequested || restartCount >= options.maxRestarts) {
+    return false;
+  }
+
+  switch (options.policy) {
+    case 'always':
+      return true;
+    case 'on-crash':
+      return crashed;
+    case 'never':
+    default:
+      return false;
+  }
+}
+
+export function restartDelay(options: SupervisorOptions, restartCount: number): number {
+  return Math.min(options.backoffMs * 2 ** restartCount, MAX_RESTART_DELAY_MS);
+}
+
+/**
+ * Appends a crash, dropping the oldest beyond MAX_CRASH_RECORDS
+ */
+export function recordCrash(history: CrashRecord[], record: CrashRecord): void {
+  history.push(record);
+  if (history.length > MAX_CRASH_RECORDS) {
+    history.splice(0, history.length - MAX_CRASH_RECORDS);
+  }
+}
+
+/**
+ * Messages of the last log entries
+ */
+export function tailLogLines(logs: LogEntry[], count: number = CRASH_LOG_LINES): string[] {
+  return count > 0 ? logs.slice(-count).map(entry => entry.message) : [];
+}
@@ -0,0 +1,62 @@
+export type TargetLifecycleEventType = 'created' | 'destroyed' | 'crashed' | 'recovered';
+
+export interface TargetLifecycleEvent {
+  type: TargetLifecycleEventType;
+  targetId: string;
+  targetType?: string;
+  url?: string;
+  time: Date;
+}
+
+interface TargetSummary {
+  id: string;
+  type: string;
+  url: string;
+}
+
+export const MAX_TARGET_EVENTS = 200;
+
+/**
+ * Compares two target listings and returns created/destroyed events
+ */
+export function diffTargets(previous: TargetSummary[] | undefined, next: TargetSummary[], time: Date = new Date()): TargetLifecycleEvent[] {
+  const previousIds = new Set((previous ?? []).map(t => t.id));
+  const nextIds = new Set(next.map(t => t.id));
+  const events: TargetLifecycleEvent[] = [];
+
+  for (const target of next) {
+    if (!previousIds.has(target.id)) {
+      events.push({ type: 'created', targetId: target.id, targetType: target.type, url: target.url, time });
+    }
+  }
+
+  for (const target of previous ?? []) {
+    if (!nextIds.has(target.id)) {
+      events.push({ type: 'destroyed', targetId: target.id, targetType: target.type, url: target.url, time });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Appends events to a log, dropping the oldest beyond MAX_TARGET_EVENTS
+ */
+export function recordTargetEvents(log: TargetLifecycleEvent[], events: TargetLifecycleEvent[]): void {
+  log.push(...events);
+  if (log.length > MAX_TARGET_EVENTS) {
+    log.splice(0, log.length - MAX_TARGET_EVENTS);
+  }
+}
+
+/**
+ * A target counts as crashed until it is reloaded or destroyed
+ */
+export function isTargetCrashed(log: TargetLifecycleEvent[], targetId: string): boolean {
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (log[i].targetId === targetId) {
+      return log[i].type === 'crashed';
+    }
+  }
+  return false;
+}
@@ -11,7 +11,7 @@ declare module 'chrome-remote-interface' {
   }
 
   export interface CDPClient {
-    send(method: string, params?: Record<string, unknown>): Promise<unknown>;
+    send(method: string, params?: Record<string, unknown>, sessionId?: string): Promise<unknown>;
     on(event: string, callback: (params: unknown) => void): void;
     close(): void;
   }
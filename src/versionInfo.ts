@@ -0,0 +1,55 @@
+/**
+ * Response of the remote debugging endpoint's /json/version
+ */
+export interface CDPVersionInfo {
+  Browser?: string;
+  'Protocol-Version'?: string;
+  'User-Agent'?: string;
+  'V8-Version'?: string;
+  'WebKit-Version'?: string;
+  webSocketDebuggerUrl?: string;
+}
+
+export interface ElectronVersions {
+  electron?: string;
+  chrome?: string;
+  v8?: string;
+  protocol?: string;
+}
+
+/**
+ * Extracts the embedded Electron and Chromium versions. Electron only reveals
+ * its own version in the user agent, e.g. "... Chrome/122.0.6261.70 Electron/29.1.0 ...".
+ */
+export function parseElectronVersions(info: CDPVersionInfo): ElectronVersions {
+  const userAgent = info['User-Agent'] ?? '';
+  const electron = /\bElectron\/([\w.-]+)/.exec(userAgent)?.[1];
+  const chrome = /\b(?:Headless)?Chrome\/([\d.]+)/.exec(info.Browser ?? '')?.[1]
+    ?? /\bChrome\/([\d.]+)/.exec(userAgent)?.[1];
+
+  return {
+    electron,
+    chrome,
+    v8: info['V8-Version'],
+    protocol: info['Protocol-Version']
+  };
+}
+
+export async function fetchVersionInfo(endpoint: string): Promise<CDPVersionInfo> {
+  const response = await fetch(`${endpoint}/json/version`);
+  if (!response.ok) {
+    throw new Error(`Failed to get version info: ${response.statusText}`);
+  }
+  return await response.json() as CDPVersionInfo;
+}
+
+/**
+ * Whether a request failed because nothing listens on the endpoint any more,
+ * as opposed to the app being slow or answering with an error. fetch() reports
+ * the socket error as its cause.
+ */
+export function isEndpointGone(error: unknown): boolean {
+  const err = error as { code?: string; cause?: { code?: string } } | undefined;
+  const code = err?.code ?? err?.cause?.code;
+  return code === 'ECONNREFUSED' || code === 'ECONNRESET';
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import { LOG_DIR_ENV } from '../src/logArchive.js';
+
+const versionInfo = {
+  Browser: 'Chrome/122.0.6261.70',
+  'Protocol-Version': '1.3',
+  'User-Agent': 'Mozilla/5.0 Electron/29.1.0',
+  webSocketDebuggerUrl: 'ws://localhost:9333/devtools/browser/abc'
+};
+
+const targets = [
+  { id: 'target-1', type: 'page', title: 'Main Window', url: 'file:///app/index.html' }
+];
+
+function mockDebuggerEndpoint() {
+  return vi.fn(async (input: string | URL) => {
+    const url = String(input);
+    if (url === 'http://localhost:9333/json/version') {
+      return new Response(JSON.stringify(versionInfo));
+    }
+    if (url === 'http://localhost:9333/json/list') {
+      return new Response(JSON.stringify(targets));
+    }
+    throw new TypeError(`fetch failed: ${url}`);
+  });
+}
+
+describe('electron_attach', () => {
+  let fetchMock: ReturnType<typeof mockDebuggerEndpoint>;
+
+  beforeEach(() => {
+    fetchMock = mockDebuggerEndpoint();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('registers an attached process after checking /json/version', async () => {
+    const client = await connectClient('attach-test');
+
+    const result = await client.callTool({ name: 'electron_attach', arguments: { port: 9333 } });
+    const data = parseToolText(result);
+
+    expect(result.isError).toBeFalsy();
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:9333/json/version');
+    expect(data.mode).toBe('attached');
+    expect(data.browser).toBe('Chrome/122.0.6261.70');
+    expect(data.targets).toBe(1);
+
+    const list = parseToolText(await client.callTool({ name: 'electron_list', arguments: {} }));
+    expect(list.processes).toHaveLength(1);
+    expect(list.processes[0]).toMatchObject({ id: data.processId, mode: 'attached', debugPort: 9333 });
+    expect(list.processes[0].pid).toBeUndefined();
+    expect(list.processes[0].versions).toMatchObject({ electron: '29.1.0', chrome: '122.0.6261.70' });
+
+    const resources = await client.listResources();
+    expect(resources.resources.map(r => r.uri)).toContain(`electron://cdp/${data.processId}/target-1`);
+  });
+
+  it('lists pages as renderers and other targets by their type', async () => {
+    const worker = { id: 'worker-1', type: 'service_worker', title: 'sw.js', url: 'file:///app/sw.js' };
+    fetchMock.mockImplementation(async (input: string | URL) => String(input).endsWith('/json/version')
+      ? new Response(JSON.stringify(versionInfo))
+      : new Response(JSON.stringify([...targets, worker])));
+    const client = await connectClient('attach-test');
+    await client.callTool({ name: 'electron_attach', arguments: { port: 9333 } });
+
+    const listed = await readResourceJson(client, 'electron://targets');
+    expect(listed.map((t: { kind: string; target: { id: string } }) => [t.target.id, t.kind])).toEqual([
+      ['target-1', 'renderer'],
+      ['worker-1', 'service_worker']
+    ]);
+  });
+
+  it('fails when no debugging endpoint answers', async () => {
+    const client = await connectClient('attach-test');
+
+    const result = await client.callTool({ name: 'electron_attach', arguments: { port: 9444 } });
+
+    expect(result.isError).toBe(true);
+    expect(parseToolText(result).error).toContain('No remote debugging endpoint at http://localhost:9444');
+  });
+
+  it('leaves no log archive behind when the target list can\'t be read', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attach-test-'));
+    vi.stubEnv(LOG_DIR_ENV, dir);
+    fetchMock.mockImplementation(async (input: string | URL) => String(input).endsWith('/json/version')
+      ? new Response(JSON.stringify(versionInfo))
+      : new Response('', { status: 500, statusText: 'Internal Server Error' }));
+    try {
+      const client = await connectClient('attach-test');
+
+      const result = await client.callTool({ name: 'electron_attach', arguments: { port: 9333 } });
+
+      expect(result.isError).toBe(true);
+      expect(fs.readdirSync(dir)).toEqual([]);
+    } finally {
+      vi.unstubAllEnvs();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to attach twice to the same endpoint', async () => {
+    const client = await connectClient('attach-test');
+
+    await client.callTool({ name: 'electron_attach', arguments: { port: 9333 } });
+    const result = await client.callTool({ name: 'electron_attach', arguments: { port: 9333 } });
+
+    expect(result.isError).toBe(true);
+    expect(parseToolText(result).error).toContain('Already debugging localhost:9333');
+  });
+
+  it('detaches instead of killing on electron_stop', async () => {
+    const client = await connectClient('attach-test');
+
+    const { processId } = parseToolText(await client.callTool({ name: 'electron_attach', arguments: { port: 9333 } }));
+    const stop = parseToolText(await client.callTool({ name: 'electron_stop', arguments: { processId } }));
+
+    expect(stop).toEqual({ success: true, processId, action: 'detached' });
+
+    const list = parseToolText(await client.callTool({ name: 'electron_list', arguments: {} }));
+    expect(list.processes).toHaveLength(0);
+  });
+
+  it('detaches by itself once the app stops answering', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const client = await connectClient('attach-test');
+    const { processId } = parseToolText(await client.callTool({ name: 'electron_attach', arguments: { port: 9333 } }));
+
+    // A single failed poll isn't enough
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } }));
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.advanceTimersByTimeAsync(2000);
+    let list = parseToolText(await client.callTool({ name: 'electron_list', arguments: {} }));
+    expect(list.processes).toHaveLength(1);
+
+    fetchMock.mockRejectedValue(new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } }));
+    await vi.advanceTimersByTimeAsync(6000);
+    list = parseToolText(await client.callTool({ name: 'electron_list', arguments: {} }));
+    expect(list.processes).toHaveLength(0);
+    expect(vi.getTimerCount()).toBe(0);
+
+    const history = await readResourceJson(client, `electron://history/${processId}`);
+    expect(history).toMatchObject({ id: processId, mode: 'attached', finalStatus: 'detached' });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import { ProtocolDescriptor } from '../src/cdpProtocol.js';
+import {
+  createCDPEventLog,
+  addEventSubscription,
+  removeEventSubscription,
+  recordCDPEvent,
+  parseEventPattern,
+  checkEventPatterns,
+  eventDomains,
+  eventMatches,
+  createEventQueue,
+  pollEvents
+} from '../src/cdpEvents.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+const protocol = createRequire(import.meta.url)('chrome-remote-interface/lib/protocol.json') as ProtocolDescriptor;
+
+describe('CDP event patterns', () => {
+  it('accepts single events and whole domains', () => {
+    expect(parseEventPattern('Page.loadEventFired')).toEqual({ domain: 'Page', event: 'loadEventFired' });
+    expect(parseEventPattern('Network.*')).toEqual({ domain: 'Network', event: undefined });
+    expect(() => parseEventPattern('loadEventFired')).toThrow(/expected Domain.event or Domain.\*/);
+    expect(() => parseEventPattern('Page.load*')).toThrow(/expected Domain.event/);
+  });
+
+  it('matches events and lists the domains to enable', () => {
+    expect(eventMatches(['Page.loadEventFired'], 'Page.loadEventFired')).toBe(true);
+    expect(eventMatches(['Page.loadEventFired'], 'Page.frameNavigated')).toBe(false);
+    expect(eventMatches(['Network.*'], 'Network.requestWillBeSent')).toBe(true);
+    expect(eventMatches(['Network.*'], 'NetworkExtra.thing')).toBe(false);
+    expect(eventDomains(['Page.loadEventFired', 'Page.frameNavigated', 'Debugger.paused'])).toEqual(['Page', 'Debugger']);
+  });
+
+  it('checks patterns against the protocol', () => {
+    expect(() => checkEventPatterns(protocol, ['Page.loadEventFired', 'Network.*'])).not.toThrow();
+    expect(() => checkEventPatterns(protocol, ['Page.exploded'])).toThrow(/Unknown CDP event "Page.exploded"; Page has .*loadEventFired/);
+    expect(() => checkEventPatterns(protocol, ['Nope.*'])).toThrow(/Unknown CDP domain "Nope"/);
+  });
+});
+
+describe('CDP event queues', () => {
+  it('queues only subscribed events, numbered across targets', () => {
+    const log = createCDPEventLog();
+    const page = addEventSubscription(log, 'page-1', ['Page.loadEventFired']);
+    addEventSubscription(log, 'page-2', ['Network.*']);
+
+    expect(recordCDPEvent(log, 'page-1', { method: 'Page.loadEventFired', params: { timestamp: 1 } })?.seq).toBe(1);
+    expect(recordCDPEvent(log, 'page-1', { method: 'Page.frameNavigated' })).toBeUndefined();
+    expect(recordCDPEvent(log, 'page-3', { method: 'Page.loadEventFired' })).toBeUndefined();
+    expect(recordCDPEvent(log, 'page-2', { method: 'Network.requestWillBeSent', sessionId: 'session-1' })).toMatchObject({ seq: 2, params: {}, sessionId: 'session-1' });
+
+    expect(removeEventSubscription(log, page.id)).toBe(page);
+    expect(removeEventSubscription(log, page.id)).toBeUndefined();
+    expect(recordCDPEvent(log, 'page-1', { method: 'Page.loadEventFired' })).toBeUndefined();
+    expect(log.queues.get('page-1')?.events).toHaveLength(1);
+  });
+
+  it('rejects empty subscriptions and bad capacities', () => {
+    const log = createCDPEventLog();
+    expect(() => addEventSubscription(log, 'page-1', [])).toThrow(/at least one event/);
+    expect(() => createEventQueue(0)).toThrow(/capacity must be an integer/);
+    expect(() => createEventQueue(1.5)).toThrow(/capacity must be an integer/);
+  });
+
+  it('drops the oldest events and reports the gap to pollers that fell behind', () => {
+    const log = createCDPEventLog();
+    addEventSubscription(log, 'page-1', ['Page.*'], 3);
+    for (let i = 0; i < 5; i++) {
+      recordCDPEvent(log, 'page-1', { method: 'Page.loadEventFired' });
+    }
+    const queue = log.queues.get('page-1')!;
+    expect(queue.events.map(e => e.seq)).toEqual([3, 4, 5]);
+    expect(queue.dropped).toBe(2);
+
+    expect(pollEvents([queue], { afterSeq: 0 })).toMatchObject({ nextSeq: 5, hasMore: false, gap: true });
+    expect(pollEvents([queue], { afterSeq: 2 })).toMatchObject({ nextSeq: 5, gap: false });
+
+    // A smaller capacity for the same target trims the queue
+    addEventSubscription(log, 'page-1', ['Page.loadEventFired'], 1);
+    expect(queue.events.map(e => e.seq)).toEqual([5]);
+  });
+
+  it('pages through events of several targets in order', () => {
+    const log = createCDPEventLog();
+    addEventSubscription(log, 'page-1', ['Page.*']);
+    addEventSubscription(log, 'page-2', ['Page.*', 'Network.*']);
+    recordCDPEvent(log, 'page-1', { method: 'Page.loadEventFired' });
+    recordCDPEvent(log, 'page-2', { method: 'Network.requestWillBeSent' });
+    recordCDPEvent(log, 'page-2', { method: 'Page.loadEventFired' });
+    recordCDPEvent(log, 'page-1', { method: 'Page.frameNavigated' });
+    const queues = Array.from(log.queues.values());
+
+    const first = pollEvents(queues, { limit: 3 });
+    expect(first.events.map(e => `${e.targetId} ${e.method}`)).toEqual([
+      'page-1 Page.loadEventFired',
+      'page-2 Network.requestWillBeSent',
+      'page-2 Page.loadEventFired'
+    ]);
+    expect(first).toMatchObject({ nextSeq: 3, hasMore: true, gap: false });
+    expect(pollEvents(queues, { afterSeq: first.nextSeq }).events.map(e => e.seq)).toEqual([4]);
+
+    expect(pollEvents(queues, { targetId: 'page-2' }).events.map(e => e.seq)).toEqual([2, 3]);
+    expect(pollEvents(queues, { method: 'Page.*' }).events.map(e => e.seq)).toEqual([1, 3, 4]);
+    expect(pollEvents(queues, { afterSeq: 4 })).toEqual({ events: [], nextSeq: 4, hasMore: false, gap: false });
+  });
+
+  it.skipIf(process.platform === 'win32')('queues a page\'s events for polling and as a subscribable resource', async () => {
+    const client = await connectClient('cdp-events-test');
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, startupTimeout: 10000 }
+    });
+    const { processId } = parseToolText(start);
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const result = await client.callTool({ name, arguments: { processId, ...args } });
+      return { isError: result.isError, body: parseToolText(result) };
+    };
+    const resource = `electron://events/${processId}/page-1`;
+
+    try {
+      // Wait for the session that captures the page's console, so it is the one subscribed to
+      for (let i = 0; i < 50; i++) {
+        const logs = await call('electron_logs', {});
+        if (logs.body.entries.some((e: { stream: string }) => e.stream === 'console')) {
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      const bad = await call('electron_events_subscribe', { events: ['Runtime.exploded'] });
+      expect(bad.isError).toBe(true);
+      expect(bad.body.error).toMatch(/Unknown CDP event "Runtime.exploded"/);
+
+      await client.subscribeResource({ uri: resource });
+      // The fake page replays its console message when Runtime is enabled
+      const subscribed = await call('electron_events_subscribe', { events: ['Runtime.consoleAPICalled'], capacity: 10 });
+      expect(subscribed.body).toEqual({
+        subscriptionId: 'events-1',
+        processId,
+        targetId: 'page-1',
+        events: ['Runtime.consoleAPICalled'],
+        capacity: 10,
+        enabled: ['Runtime'],
+        validation: 'passed',
+        resource
+      });
+
+      let polled = await call('electron_events_poll', {});
+      for (let i = 0; i < 50 && polled.body.events.length === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        polled = await call('electron_events_poll', {});
+      }
+      // The exception replayed with it isn't subscribed to
+      expect(polled.body.events).toEqual([
+        expect.objectContaining({ seq: 1, targetId: 'page-1', method: 'Runtime.consoleAPICalled', params: expect.objectContaining({ type: 'log' }) })
+      ]);
+      expect(polled.body).toMatchObject({ processId, nextSeq: 1, hasMore: false, gap: false });
+      expect((await call('electron_events_poll', { afterSeq: 1 })).body.events).toEqual([]);
+
+      const read = await readResourceJson(client, resource);
+      expect(read).toMatchObject({ processId, targetId: 'page-1', capacity: 10, dropped: 0, subscriptions: [{ id: 'events-1' }] });
+      expect(read.events).toHaveLength(1);
+      for (let i = 0; i < 20 && !updated.includes(resource); i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      expect(updated).toContain(resource);
+
+      // A subscribe whose session can't be opened leaves neither a queue nor a resource behind
+      const missing = await call('electron_events_subscribe', { targetId: 'no-such-target', events: ['Runtime.consoleAPICalled'], capacity: 1 });
+      expect(missing.isError).toBe(true);
+      const { resources } = await client.listResources();
+      expect(resources.map(r => r.uri)).not.toContain(`electron://events/${processId}/no-such-target`);
+      await expect(client.readResource({ uri: `electron://events/${processId}/no-such-target` })).rejects.toThrow();
+      expect((await call('electron_events_subscribe', { events: ['Runtime.consoleAPICalled'], capacity: 0 })).isError).toBe(true);
+      expect(await readResourceJson(client, resource)).toMatchObject({ capacity: 10, subscriptions: [{ id: 'events-1' }] });
+
+      const unsubscribed = await call('electron_events_unsubscribe', { subscriptionId: 'events-1' });
+      expect(unsubscribed.body).toMatchObject({ success: true, targetId: 'page-1', remainingSubscriptions: [] });
+      expect((await call('electron_events_unsubscribe', { subscriptionId: 'events-1' })).isError).toBe(true);
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import {
+  ProtocolDescriptor,
+  parseCDPMethod,
+  isProtocolDescriptor,
+  findCommand,
+  validateCDPCall,
+  cdpErrorDetails,
+  summarizeProtocol,
+  getProtocolDomain
+} from '../src/cdpProtocol.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+const protocol = createRequire(import.meta.url)('chrome-remote-interface/lib/protocol.json') as ProtocolDescriptor;
+
+describe('CDP protocol validation', () => {
+  it('splits methods into domain and command', () => {
+    expect(parseCDPMethod('Page.navigate')).toEqual({ domain: 'Page', command: 'navigate' });
+    expect(() => parseCDPMethod('navigate')).toThrow(/expected Domain.command/);
+    expect(() => parseCDPMethod('Page.navigate.now')).toThrow(/expected Domain.command/);
+  });
+
+  it('recognises protocol descriptors', () => {
+    expect(isProtocolDescriptor(protocol)).toBe(true);
+    expect(isProtocolDescriptor({ Browser: 'Chrome' })).toBe(false);
+    expect(isProtocolDescriptor(null)).toBe(false);
+  });
+
+  it('finds commands and names what exists when they are missing', () => {
+    expect(findCommand(protocol, 'Page.navigate').command.name).toBe('navigate');
+    expect(() => findCommand(protocol, 'Nope.navigate')).toThrow(/Unknown CDP domain "Nope"; this target has .*Page/);
+    expect(() => findCommand(protocol, 'Page.teleport')).toThrow(/Unknown CDP command "Page.teleport"; Page has .*navigate/);
+  });
+
+  it('accepts valid parameters', () => {
+    expect(validateCDPCall(protocol, 'Page.navigate', { url: 'https://example.com', transitionType: 'link' })).toEqual([]);
+    expect(validateCDPCall(protocol, 'Runtime.callFunctionOn', {
+      functionDeclaration: 'function () {}',
+      executionContextId: 1,
+      arguments: [{ value: { any: 'thing' } }, { objectId: 'obj-1' }]
+    })).toEqual([]);
+    expect(validateCDPCall(protocol, 'Page.enable', {})).toEqual([]);
+  });
+
+  it('reports missing, unknown and mistyped parameters', () => {
+    expect(validateCDPCall(protocol, 'Page.navigate', { referrer: 1, extra: true })).toEqual([
+      'params.url is required',
+      'params.referrer must be a string, got number',
+      expect.stringMatching(/^params.extra is not a parameter; expected url, referrer/)
+    ]);
+    expect(validateCDPCall(protocol, 'Page.navigate', { url: 'x', transitionType: 'teleport' })).toEqual([
+      expect.stringMatching(/^params.transitionType must be one of "link", .* got "teleport"$/)
+    ]);
+    expect(validateCDPCall(protocol, 'Runtime.evaluate', { expression: '1', contextId: 1.5 })).toEqual([
+      'params.contextId must be an integer, got number'
+    ]);
+  });
+
+  it('checks nested objects and array items through type references', () => {
+    expect(validateCDPCall(protocol, 'Runtime.callFunctionOn', {
+      functionDeclaration: 'function () {}',
+      arguments: [{ objectId: 5 }, 'x']
+    })).toEqual([
+      'params.arguments[0].objectId must be a string, got number',
+      'params.arguments[1] must be an object, got string'
+    ]);
+  });
+
+  it('summarizes domains by name and serves each in full', () => {
+    const summary = summarizeProtocol(protocol);
+    expect(summary.version).toEqual(protocol.version);
+    expect(summary.domains).toHaveLength(protocol.domains.length);
+    const page = summary.domains.find(d => d.domain === 'Page');
+    expect(page?.commands).toContain('navigate');
+    expect(page?.events).toContain('loadEventFired');
+    expect(page?.types).toContain('FrameId');
+
+    expect(getProtocolDomain(protocol, 'Page').commands.find(c => c.name === 'navigate')?.parameters?.[0]).toMatchObject({ name: 'url', type: 'string' });
+    expect(() => getProtocolDomain(protocol, 'Nope')).toThrow(/Unknown CDP domain "Nope"/);
+  });
+
+  it('keeps the code, message and data of protocol errors', () => {
+    const error = Object.assign(new Error('No node with given id found (42)'), {
+      response: { code: -32000, message: 'No node with given id found', data: '42' }
+    });
+    expect(cdpErrorDetails(error)).toEqual({ code: -32000, message: 'No node with given id found', data: '42' });
+    expect(cdpErrorDetails(new Error('socket hang up'))).toEqual({ message: 'socket hang up' });
+  });
+
+  it.skipIf(process.platform === 'win32')('sends commands with parameters and returns validation and CDP errors', async () => {
+    const client = await connectClient('cdp-protocol-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, startupTimeout: 10000 }
+    });
+    const { processId } = parseToolText(start);
+    const send = async (args: Record<string, unknown>) => {
+      const result = await client.callTool({ name: 'electron_cdp_send', arguments: { processId, ...args } });
+      return { isError: result.isError, body: parseToolText(result) };
+    };
+
+    try {
+      const navigated = await send({ method: 'Page.navigate', params: { url: 'file:///fake/other.html' } });
+      expect(navigated).toEqual({
+        isError: undefined,
+        body: { result: { frameId: 'frame-1', loaderId: 'loader-1' }, method: 'Page.navigate', processId, targetId: 'page-1', validation: 'passed' }
+      });
+
+      const invalid = await send({ method: 'Page.navigate', targetId: 'page-1', params: { url: 42 } });
+      expect(invalid).toEqual({
+        isError: true,
+        body: { error: 'Invalid parameters for Page.navigate', method: 'Page.navigate', problems: ['params.url must be a string, got number'] }
+      });
+
+      const unknown = await send({ method: 'Page.teleport' });
+      expect(unknown.isError).toBe(true);
+      expect(unknown.body.error).toMatch(/Unknown CDP command "Page.teleport"/);
+
+      const failed = await send({ method: 'Page.navigate', params: { url: 'not a url' } });
+      expect(failed).toEqual({
+        isError: true,
+        body: {
+          error: 'Page.navigate failed: Cannot navigate to invalid URL',
+          method: 'Page.navigate',
+          processId,
+          targetId: 'page-1',
+          cdpError: { code: -32000, message: 'Cannot navigate to invalid URL' }
+        }
+      });
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+
+  it.skipIf(process.platform === 'win32')('serves the protocol a target reports', async () => {
+    const client = await connectClient('cdp-protocol-resource-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, startupTimeout: 10000 }
+    });
+    const { processId } = parseToolText(start);
+    const read = (uri: string) => readResourceJson(client, uri);
+
+    try {
+      const target = await read(`electron://cdp/${processId}/page-1`);
+      expect(target.availableDomains).toEqual(protocol.domains.map(d => d.domain));
+      expect(target.protocol).toBe(`electron://cdp/${processId}/page-1/protocol`);
+
+      const { resources } = await client.listResources();
+      expect(resources.map(r => r.uri)).toContain(target.protocol);
+
+      const summary = await read(target.protocol);
+      const page = summary.domains.find((d: { domain: string }) => d.domain === 'Page');
+      expect(page).toMatchObject({ uri: `electron://cdp/${processId}/page-1/protocol/Page` });
+      expect(page.commands).toContain('navigate');
+
+      const domain = await read(page.uri);
+      expect(domain).toEqual(protocol.domains.find(d => d.domain === 'Page'));
+
+      await expect(client.readResource({ uri: `electron://cdp/${processId}/page-1/protocol/Nope` })).rejects.toThrow(/Unknown CDP domain/);
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { CDPClient } from 'chrome-remote-interface';
+import {
+  createCDPSessionPool,
+  acquireSession,
+  closeSession,
+  closeAllSessions,
+  pruneSessions,
+  describeSessions,
+  reconnectDelay
+} from '../src/cdpSessions.js';
+
+type MockClient = CDPClient & { label: string; emit: (event: string) => void };
+
+function createMockClient(label: string): MockClient {
+  const listeners = new Map<string, Array<(params: unknown) => void>>();
+  return {
+    label,
+    send: vi.fn(async () => ({})),
+    on: vi.fn((event: string, callback: (params: unknown) => void) => {
+      listeners.set(event, [...(listeners.get(event) ?? []), callback]);
+    }),
+    close: vi.fn(),
+    emit: (event: string) => {
+      for (const callback of listeners.get(event) ?? []) {
+        callback(undefined);
+      }
+    }
+  };
+}
+
+describe('CDP session pool', () => {
+  it('opens one session per target lazily', async () => {
+    const pool = createCDPSessionPool();
+    const connect = vi.fn(async (targetId: string) => createMockClient(targetId));
+
+    expect(pool.sessions.size).toBe(0);
+
+    const clientA = await acquireSession(pool, 'target-a', connect);
+    const clientB = await acquireSession(pool, 'target-b', connect);
+
+    expect(clientA).not.toBe(clientB);
+    expect((clientA as MockClient).label).toBe('target-a');
+    expect((clientB as MockClient).label).toBe('target-b');
+    expect(connect).toHaveBeenCalledTimes(2);
+  });
+
+  it('reuses the open session for the same target', async () => {
+    const pool = createCDPSessionPool();
+    const connect = vi.fn(async (targetId: string) => createMockClient(targetId));
+
+    const first = await acquireSession(pool, 'target-a', connect);
+    const second = await acquireSession(pool, 'target-a', connect);
+
+    expect(first).toBe(second);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares a single connection attempt between concurrent callers', async () => {
+    const pool = createCDPSessionPool();
+    const connect = vi.fn(async (targetId: string) => createMockClient(targetId));
+
+    const [first, second] = await Promise.all([
+      acquireSession(pool, 'target-a', connect),
+      acquireSession(pool, 'target-a', connect)
+    ]);
+
+    expect(first).toBe(second);
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(pool.pending.size).toBe(0);
+  });
+
+  it('does not keep a session when connecting fails', async () => {
+    const pool = createCDPSessionPool();
+    const connect = vi.fn(async () => {
+      throw new Error('connection refused');
+    });
+
+    await expect(acquireSession(pool, 'target-a', connect)).rejects.toThrow('connection refused');
+    expect(pool.sessions.size).toBe(0);
+    expect(pool.pending.size).toBe(0);
+  });
+
+  it('closes sessions whose targets disappeared', async () => {
+    const pool = createCDPSessionPool();
+    const clients = new Map<string, CDPClient>();
+    const connect = async (targetId: string) => {
+      const client = createMockClient(targetId);
+      clients.set(targetId, client);
+      return client;
+    };
+
+    await acquireSession(pool, 'target-a', connect);
+    await acquireSession(pool, 'target-b', connect);
+
+    const pruned = pruneSessions(pool, ['target-b', 'target-c']);
+
+    expect(pruned).toEqual(['target-a']);
+    expect(clients.get('target-a')!.close).toHaveBeenCalled();
+    expect(clients.get('target-b')!.close).not.toHaveBeenCalled();
+    expect(describeSessions(pool).map(s => s.targetId)).toEqual(['target-b']);
+  });
+
+  it('closes individual and all sessions', async () => {
+    const pool = createCDPSessionPool();
+    const connect = async (targetId: string) => createMockClient(targetId);
+
+    await acquireSession(pool, 'target-a', connect);
+    await acquireSession(pool, 'target-b', connect);
+
+    expect(closeSession(pool, 'target-a')).toBe(true);
+    expect(closeSession(pool, 'target-a')).toBe(false);
+
+    closeAllSessions(pool);
+    expect(pool.sessions.size).toBe(0);
+  });
+
+  it('marks a session stale when its socket disconnects and reconnects on next use', async () => {
+    const pool = createCDPSessionPool();
+    const connect = vi.fn(async (targetId: string) => createMockClient(targetId));
+
+    const first = await acquireSession(pool, 'target-a', connect) as MockClient;
+    first.emit('disconnect');
+
+    expect(describeSessions(pool)[0]).toMatchObject({ targetId: 'target-a', stale: true, reconnects: 0 });
+
+    const second = await acquireSession(pool, 'target-a', connect, { baseDelayMs: 1 });
+
+    expect(second).not.toBe(first);
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(describeSessions(pool)[0]).toMatchObject({ stale: false, reconnects: 1 });
+  });
+
+  it('retries a reconnect with backoff before giving up', async () => {
+    const pool = createCDPSessionPool();
+    let attempts = 0;
+    const connect = vi.fn(async (targetId: string) => {
+      attempts++;
+      if (attempts > 1 && attempts < 4) {
+        throw new Error('renderer swapping');
+      }
+      return createMockClient(targetId);
+    });
+
+    const first = await acquireSession(pool, 'target-a', connect) as MockClient;
+    first.emit('disconnect');
+
+    await acquireSession(pool, 'target-a', connect, { baseDelayMs: 1, maxAttempts: 4 });
+    expect(connect).toHaveBeenCalledTimes(4);
+  });
+
+  it('drops a stale session that cannot be revived', async () => {
+    const pool = createCDPSessionPool();
+    let fail = false;
+    const connect = vi.fn(async (targetId: string) => {
+      if (fail) {
+        throw new Error('target closed');
+      }
+      return createMockClient(targetId);
+    });
+
+    const first = await acquireSession(pool, 'target-a', connect) as MockClient;
+    first.emit('disconnect');
+    fail = true;
+
+    await expect(acquireSession(pool, 'target-a', connect, { baseDelayMs: 1, maxAttempts: 2 }))
+      .rejects.toThrow('Could not reconnect to target target-a after 2 attempts: target closed');
+    expect(pool.sessions.size).toBe(0);
+  });
+
+  it('bounds the reconnect delay', () => {
+    expect(reconnectDelay(1)).toBe(250);
+    expect(reconnectDelay(2)).toBe(500);
+    expect(reconnectDelay(10)).toBe(2000);
+    expect(reconnectDelay(3, { baseDelayMs: 10, maxDelayMs: 25 })).toBe(25);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText } from './helpers/mcpClient.js';
+import {
+  MAX_ARG_PREVIEW_LENGTH,
+  consoleLevel,
+  formatRemoteObject,
+  formatStackTrace,
+  consoleEntry,
+  exceptionEntry,
+  browserLogEntry
+} from '../src/consoleCapture.js';
+import { formatLogText } from '../src/logEntries.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+const page = { targetId: 'page-1', url: 'file:///app/index.html' };
+const frames = { callFrames: [{ functionName: 'render', url: 'file:///app/app.js', lineNumber: 9, columnNumber: 0 }] };
+
+describe('remote object previews', () => {
+  it('shows primitives as values', () => {
+    expect(formatRemoteObject({ type: 'string', value: 'hi' })).toBe('hi');
+    expect(formatRemoteObject({ type: 'number', value: 3, description: '3' })).toBe('3');
+    expect(formatRemoteObject({ type: 'number', unserializableValue: 'NaN', description: 'NaN' })).toBe('NaN');
+    expect(formatRemoteObject({ type: 'undefined' })).toBe('undefined');
+    expect(formatRemoteObject({ type: 'object', subtype: 'null', value: null })).toBe('null');
+  });
+
+  it('shows objects and arrays from their preview', () => {
+    expect(formatRemoteObject({
+      type: 'object',
+      description: 'Object',
+      preview: { type: 'object', overflow: true, properties: [{ name: 'a', type: 'number', value: '1' }, { name: 'b', type: 'string', value: 'x' }] }
+    })).toBe('{a: 1, b: "x", …}');
+    expect(formatRemoteObject({
+      type: 'object',
+      subtype: 'array',
+      description: 'Array(2)',
+      preview: { type: 'object', subtype: 'array', overflow: false, properties: [{ name: '0', type: 'number', value: '1' }, { name: '1', type: 'object', value: 'Object' }] }
+    })).toBe('[1, Object]');
+    expect(formatRemoteObject({ type: 'object', subtype: 'error', description: 'Error: boom\n    at x' })).toBe('Error: boom\n    at x');
+    expect(formatRemoteObject({ type: 'function', description: 'function f() {}' })).toBe('function f() {}');
+  });
+
+  it('truncates long previews', () => {
+    const preview = formatRemoteObject({ type: 'string', value: 'x'.repeat(MAX_ARG_PREVIEW_LENGTH * 2) });
+    expect(preview).toHaveLength(MAX_ARG_PREVIEW_LENGTH + 1);
+  });
+});
+
+describe('page log entries', () => {
+  it('maps console types to levels', () => {
+    expect(consoleLevel('log')).toBe('info');
+    expect(consoleLevel('debug')).toBe('verbose');
+    expect(consoleLevel('warning')).toBe('warning');
+    expect(consoleLevel('assert')).toBe('error');
+  });
+
+  it('formats stack frames with 1-based positions', () => {
+    expect(formatStackTrace(frames)).toEqual(['render (file:///app/app.js:10:1)']);
+    expect(formatStackTrace({ callFrames: [] })).toBeUndefined();
+  });
+
+  it('builds entries for console calls, exceptions and browser messages', () => {
+    const log = consoleEntry({ type: 'warning', timestamp: 1000, args: [{ type: 'string', value: 'slow' }, { type: 'number', value: 5 }], stackTrace: frames }, page);
+    expect(log).toEqual({
+      time: new Date(1000),
+      stream: 'console',
+      level: 'warning',
+      source: 'console.warning',
+      message: 'slow 5',
+      targetId: 'page-1',
+      url: 'file:///app/index.html',
+      args: ['slow', '5'],
+      stackTrace: ['render (file:///app/app.js:10:1)']
+    });
+
+    const exception = exceptionEntry({
+      timestamp: 2000,
+      exceptionDetails: {
+        text: 'Uncaught',
+        url: 'file:///app/app.js',
+        lineNumber: 9,
+        columnNumber: 0,
+        exception: { type: 'object', subtype: 'error', description: 'TypeError: nope\n    at render (file:///app/app.js:10:1)' },
+        stackTrace: frames
+      }
+    }, page);
+    expect(exception).toMatchObject({ stream: 'exception', level: 'error', source: 'file:///app/app.js:10:1', message: 'Uncaught TypeError: nope' });
+
+    const browser = browserLogEntry({ entry: { source: 'network', level: 'error', text: 'Failed to load resource', timestamp: 3000, url: 'file:///app/x.png' } }, page);
+    expect(browser).toMatchObject({ stream: 'browser', level: 'error', source: 'network', message: 'Failed to load resource (file:///app/x.png)' });
+
+    expect(formatLogText([exception])).toBe(
+      '[page-1] [ERROR:file:///app/app.js:10:1] Uncaught TypeError: nope\n    at render (file:///app/app.js:10:1)'
+    );
+  });
+
+  it.skipIf(process.platform === 'win32')('captures what pages log into the process log', async () => {
+    const client = await connectClient('console-capture-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, startupTimeout: 10000 }
+    });
+    const { processId } = parseToolText(start);
+
+    try {
+      let entries: Array<Record<string, unknown>> = [];
+      for (let i = 0; i < 50 && entries.length < 3; i++) {
+        const result = await client.callTool({ name: 'electron_logs', arguments: { processId } });
+        entries = parseToolText(result).entries
+          .filter((e: { targetId?: string }) => e.targetId === 'page-1');
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      expect(entries).toHaveLength(3);
+      expect(entries.find(e => e.stream === 'console')).toMatchObject({
+        level: 'info',
+        message: 'hello from the page 42 {ok: true}',
+        url: 'file:///fake/index.html',
+        args: ['hello from the page', '42', '{ok: true}'],
+        stackTrace: ['init (file:///fake/index.js:10:3)']
+      });
+      expect(entries.find(e => e.stream === 'exception')).toMatchObject({ level: 'error', message: 'Uncaught TypeError: x is not a function' });
+      expect(entries.find(e => e.stream === 'browser')).toMatchObject({ level: 'error', source: 'network' });
+
+      const text = await client.readResource({ uri: `electron://logs/${processId}` });
+      expect(text.contents[0].text).toContain('[page-1] [INFO:console.log] hello from the page 42 {ok: true}');
+
+      // Only the replay is checked against what was logged before; a page may repeat itself within a millisecond
+      await client.callTool({
+        name: 'electron_evaluate',
+        arguments: { processId, targetId: 'page-1', expression: "pageConsole.log('retry'); pageConsole.log('retry')" }
+      });
+      let retries: unknown[] = [];
+      for (let i = 0; i < 50 && retries.length < 2; i++) {
+        const result = await client.callTool({ name: 'electron_logs', arguments: { processId } });
+        retries = parseToolText(result).entries.filter((e: { message: string }) => e.message === 'retry');
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      expect(retries).toHaveLength(2);
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText } from './helpers/mcpClient.js';
+import {
+  DEVTOOLS_ACTIVE_PORT_FILE,
+  parseDevToolsListeningLine,
+  parseDevToolsActivePort,
+  findUserDataDir,
+  readDevToolsActivePort
+} from '../src/debugPort.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+describe('parseDevToolsListeningLine', () => {
+  it('reads the port from the browser websocket URL', () => {
+    const output = '\nDevTools listening on ws://127.0.0.1:41234/devtools/browser/0b5e-4c1d\n';
+    expect(parseDevToolsListeningLine(output)).toBe(41234);
+  });
+
+  it('ignores other output', () => {
+    expect(parseDevToolsListeningLine('[1234:ERROR:gpu_init.cc(523)] Passthrough is not supported')).toBeUndefined();
+  });
+});
+
+describe('parseDevToolsActivePort', () => {
+  it('reads the port from the first line', () => {
+    expect(parseDevToolsActivePort('39001\n/devtools/browser/abc')).toBe(39001);
+    expect(parseDevToolsActivePort('')).toBeUndefined();
+  });
+});
+
+describe('findUserDataDir', () => {
+  it('finds both switch forms', () => {
+    expect(findUserDataDir(['--enable-logging', '--user-data-dir=/tmp/profile', '/app'])).toBe('/tmp/profile');
+    expect(findUserDataDir(['--user-data-dir', '/tmp/profile'])).toBe('/tmp/profile');
+    expect(findUserDataDir(['/app'])).toBeUndefined();
+  });
+});
+
+describe('readDevToolsActivePort', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(() => {
+    if (tmpDir) {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  it('reads a fresh file and ignores one left over from an earlier run', () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'devtools-port-'));
+    const file = path.join(tmpDir, DEVTOOLS_ACTIVE_PORT_FILE);
+    fs.writeFileSync(file, '39001\n/devtools/browser/abc');
+    fs.utimesSync(file, new Date(1000), new Date(1000));
+
+    expect(readDevToolsActivePort(tmpDir, new Date(2000))).toBeUndefined();
+    expect(readDevToolsActivePort(tmpDir, new Date(500))).toBe(39001);
+    expect(readDevToolsActivePort(path.join(tmpDir, 'missing'), new Date(0))).toBeUndefined();
+  });
+});
+
+describe('electron_start with a Chromium-chosen port', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(() => {
+    if (tmpDir) {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  async function startFakeElectron(args: string[] = [], env: Record<string, string> = {}) {
+    const client = await connectClient('debug-port-test');
+
+    const result = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, args, env, startupTimeout: 10000 }
+    });
+    const started = parseToolText(result);
+    await client.callTool({ name: 'electron_stop', arguments: { processId: started.processId, gracePeriodMs: 1000 } });
+    return started;
+  }
+
+  it.skipIf(process.platform === 'win32')('learns the port from stderr', async () => {
+    const started = await startFakeElectron();
+    expect(started.debugPort).toBeGreaterThan(0);
+    expect(started.versions).toMatchObject({ electron: '29.1.0' });
+  });
+
+  it.skipIf(process.platform === 'win32')('learns the port from DevToolsActivePort', async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'devtools-profile-'));
+    const started = await startFakeElectron([`--user-data-dir=${tmpDir}`], { FAKE_ELECTRON_PORT_REPORT: 'file' });
+    expect(started.debugPort).toBeGreaterThan(0);
+    expect(started.versions).toMatchObject({ electron: '29.1.0' });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { LoggingMessageNotificationSchema, LoggingMessageNotification } from '@modelcontextprotocol/sdk/types.js';
+import { connectClient, parseToolText } from './helpers/mcpClient.js';
+import {
+  SERVER_LOGGER,
+  LogMessage,
+  createDiagnostics,
+  appLogger,
+  mcpLevelFor,
+  logDiagnostic
+} from '../src/diagnostics.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+describe('diagnostics', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('maps log entry levels to MCP levels', () => {
+    expect(mcpLevelFor('verbose')).toBe('debug');
+    expect(mcpLevelFor('info')).toBe('info');
+    expect(mcpLevelFor('warning')).toBe('warning');
+    expect(mcpLevelFor('error')).toBe('error');
+    expect(mcpLevelFor('fatal')).toBe('critical');
+  });
+
+  it('sends messages to the client, with the error appended', () => {
+    const sent: LogMessage[] = [];
+    const diagnostics = createDiagnostics();
+    diagnostics.send = async (message) => {
+      sent.push(message);
+    };
+
+    logDiagnostic(diagnostics, 'warning', SERVER_LOGGER, 'Could not update CDP targets', new Error('ECONNREFUSED'));
+    expect(sent).toEqual([{ level: 'warning', logger: SERVER_LOGGER, data: 'Could not update CDP targets: ECONNREFUSED' }]);
+  });
+
+  it('falls back to stderr, never stdout, when no client can be reached', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+    const stdout = vi.spyOn(process.stdout, 'write');
+
+    logDiagnostic(createDiagnostics(), 'error', SERVER_LOGGER, 'Failed to start');
+    expect(stderr).toHaveBeenCalledWith('[electron-debug-mcp] error: Failed to start\n');
+
+    const diagnostics = createDiagnostics();
+    diagnostics.send = () => Promise.reject(new Error('Not connected'));
+    logDiagnostic(diagnostics, 'info', appLogger('electron-1'), { message: 'hello' });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(stderr).toHaveBeenLastCalledWith('[electron:electron-1] info: {"message":"hello"}\n');
+    expect(stdout).not.toHaveBeenCalled();
+  });
+
+  it.skipIf(process.platform === 'win32')('sends app output as log notifications at the level the client asked for', async () => {
+    const client = await connectClient('diagnostics-test');
+    const messages: LoggingMessageNotification['params'][] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      messages.push(notification.params);
+    });
+    expect(client.getServerCapabilities()?.logging).toEqual({});
+    await client.setLoggingLevel('info');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: {
+        executablePath: fakeElectron,
+        env: { FAKE_ELECTRON_STDOUT: 'notified line', FAKE_ELECTRON_LISTEN_DELAY_MS: '1200' },
+        debugPortRange: { start: 9700, end: 9799 },
+        readyWhen: { logLine: 'notified line' },
+        startupTimeout: 10000
+      }
+    });
+    const { processId } = parseToolText(start);
+
+    try {
+      const line = messages.find(m => m.logger === appLogger(processId) && (m.data as { message: string }).message === 'notified line');
+      expect(line).toMatchObject({ level: 'info', data: { stream: 'stdout' } });
+      expect(messages.every(m => m.level !== 'debug')).toBe(true);
+      // The port is polled before the app listens on it; those failures are expected, so they are only debug messages
+      expect(messages.filter(m => String(m.data).startsWith('Error getting CDP targets'))).toEqual([]);
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+});
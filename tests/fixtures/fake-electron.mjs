@@ -0,0 +1,217 @@
+#!/usr/bin/env node
+// Stands in for an Electron binary in tests: serves the remote debugging
+// endpoints on --remote-debugging-port (0 picks a free port) with a single
+// page target, and answers CDP commands over WebSocket, with a protocol error
+// for Page.navigate to something that isn't a URL. The page replays a
+// console message, an uncaught exception and a network error when Runtime and
+// Log are enabled, as Chromium does with messages logged before a client connects.
+// Expressions evaluated in the page can log through pageConsole.log(...), which
+// stamps every message of one evaluation with the same time.
+//
+// Environment:
+//   FAKE_ELECTRON_PORT_REPORT  how to report the port: "stderr" (default), "file"
+//                              (DevToolsActivePort in --user-data-dir) or "none"
+//   FAKE_ELECTRON_STDOUT       line printed on stdout once listening
+//   FAKE_ELECTRON_EXIT_AFTER_MS / FAKE_ELECTRON_EXIT_CODE
+//                              exit on its own after a delay, e.g. to simulate a crash
+//   FAKE_ELECTRON_RENDERER     "1" to start a child process with --type=renderer
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { spawn } from 'child_process';
+import { WebSocketServer } from 'ws';
+
+const require = createRequire(import.meta.url);
+const protocol = require('chrome-remote-interface/lib/protocol.json');
+
+const option = (name) => {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+};
+
+const requestedPort = parseInt(option('remote-debugging-port') ?? '0', 10);
+const userDataDir = option('user-data-dir');
+const report = process.env.FAKE_ELECTRON_PORT_REPORT ?? 'stderr';
+
+// Stays in our process group, like Chromium's helper processes
+const renderer = process.env.FAKE_ELECTRON_RENDERER === '1'
+  ? spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)', '--', '--type=renderer'], { stdio: 'ignore' })
+  : undefined;
+
+// What page expressions are evaluated against
+globalThis.document = { readyState: 'complete', title: 'Fake Window' };
+
+// Page connections that enabled Runtime, and so get console calls
+const runtimeClients = new Set();
+let evaluatedAt = Date.now();
+globalThis.pageConsole = {
+  log: (...values) => {
+    const event = {
+      method: 'Runtime.consoleAPICalled',
+      params: { type: 'log', timestamp: evaluatedAt, args: values.map(value => ({ type: typeof value, value })) }
+    };
+    for (const ws of runtimeClients) {
+      ws.send(JSON.stringify(event));
+    }
+  }
+};
+
+const server = http.createServer((req, res) => {
+  const port = server.address().port;
+  if (req.url === '/json/version') {
+    res.end(JSON.stringify({
+      Browser: 'Chrome/122.0.6261.70',
+      'Protocol-Version': '1.3',
+      'User-Agent': 'Mozilla/5.0 Electron/29.1.0',
+      webSocketDebuggerUrl: `ws://127.0.0.1:${port}/devtools/browser/fake`
+    }));
+  } else if (req.url === '/json/list') {
+    res.end(JSON.stringify([{
+      id: 'page-1',
+      type: 'page',
+      title: 'Fake Window',
+      url: 'file:///fake/index.html',
+      webSocketDebuggerUrl: `ws://127.0.0.1:${port}/devtools/page/page-1`
+    }]));
+  } else if (req.url === '/json/protocol') {
+    res.end(JSON.stringify(protocol));
+  } else {
+    res.statusCode = 404;
+    res.end();
+  }
+});
+
+// What the page logged before anyone connected; Runtime.enable and Log.enable replay it
+const startedAt = Date.now();
+const pageMessages = {
+  'Runtime.enable': [
+    {
+      method: 'Runtime.consoleAPICalled',
+      params: {
+        type: 'log',
+        timestamp: startedAt,
+        args: [
+          { type: 'string', value: 'hello from the page' },
+          { type: 'number', value: 42, description: '42' },
+          { type: 'object', className: 'Object', description: 'Object', preview: { type: 'object', overflow: false, properties: [{ name: 'ok', type: 'boolean', value: 'true' }] } }
+        ],
+        stackTrace: { callFrames: [{ functionName: 'init', url: 'file:///fake/index.js', lineNumber: 9, columnNumber: 2 }] }
+      }
+    },
+    {
+      method: 'Runtime.exceptionThrown',
+      params: {
+        timestamp: startedAt + 1,
+        exceptionDetails: {
+          text: 'Uncaught',
+          url: 'file:///fake/index.js',
+          lineNumber: 19,
+          columnNumber: 4,
+          exception: { type: 'object', subtype: 'error', description: 'TypeError: x is not a function\n    at render (file:///fake/index.js:20:5)' },
+          stackTrace: { callFrames: [{ functionName: 'render', url: 'file:///fake/index.js', lineNumber: 19, columnNumber: 4 }] }
+        }
+      }
+    }
+  ],
+  'Log.enable': [
+    {
+      method: 'Log.entryAdded',
+      params: { entry: { source: 'network', level: 'error', text: 'Failed to load resource', timestamp: startedAt + 2, url: 'file:///fake/missing.png' } }
+    }
+  ]
+};
+
+// Grows with every Performance.getMetrics call, like a leaking page
+let heapUsed = 4 * 1048576;
+
+function handleCommand(method, params) {
+  switch (method) {
+    case 'Runtime.evaluate':
+      evaluatedAt = Date.now();
+      try {
+        const value = (0, eval)(params.expression);
+        return { result: { type: typeof value, value } };
+      } catch (err) {
+        return {
+          result: { type: 'object', subtype: 'error', description: String(err) },
+          exceptionDetails: { text: 'Uncaught', exception: { description: String(err) } }
+        };
+      }
+    case 'Runtime.getHeapUsage':
+      return { usedSize: 1048576, totalSize: 2097152 };
+    case 'Performance.getMetrics':
+      heapUsed += 65536;
+      return {
+        metrics: [
+          { name: 'Timestamp', value: process.uptime() },
+          { name: 'JSHeapUsedSize', value: heapUsed },
+          { name: 'JSHeapTotalSize', value: 8 * 1048576 },
+          { name: 'Nodes', value: 42 }
+        ]
+      };
+    case 'SystemInfo.getProcessInfo':
+      return {
+        processInfo: [
+          { type: 'browser', id: process.pid, cpuTime: process.cpuUsage().user / 1e6 },
+          ...(renderer ? [{ type: 'renderer', id: renderer.pid, cpuTime: 0 }] : [])
+        ]
+      };
+    case 'Page.navigate':
+      if (!/^[a-z]+:/.test(params.url)) {
+        throw { code: -32000, message: 'Cannot navigate to invalid URL' };
+      }
+      return { frameId: 'frame-1', loaderId: 'loader-1' };
+    case 'Browser.close':
+      setImmediate(() => process.exit(0));
+      return {};
+    default:
+      return {};
+  }
+}
+
+const wss = new WebSocketServer({ noServer: true });
+server.on('upgrade', (req, socket, head) => {
+  if (req.url !== '/devtools/page/page-1' && req.url !== '/devtools/browser/fake') {
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    ws.on('close', () => runtimeClients.delete(ws));
+    ws.on('message', (data) => {
+      const { id, method, params = {} } = JSON.parse(String(data));
+      if (method === 'Runtime.enable' && req.url === '/devtools/page/page-1') {
+        runtimeClients.add(ws);
+      }
+      try {
+        ws.send(JSON.stringify({ id, result: handleCommand(method, params) }));
+      } catch (error) {
+        ws.send(JSON.stringify({ id, error }));
+      }
+      if (req.url === '/devtools/page/page-1') {
+        for (const event of pageMessages[method] ?? []) {
+          ws.send(JSON.stringify(event));
+        }
+      }
+    });
+  });
+});
+
+// Apps take a while to open their debugging port
+setTimeout(() => server.listen(requestedPort, '127.0.0.1', () => {
+  const port = server.address().port;
+  if (report === 'stderr') {
+    process.stderr.write(`\nDevTools listening on ws://127.0.0.1:${port}/devtools/browser/fake\n`);
+  } else if (report === 'file' && userDataDir) {
+    fs.writeFileSync(path.join(userDataDir, 'DevToolsActivePort'), `${port}\n/devtools/browser/fake`);
+  }
+  if (process.env.FAKE_ELECTRON_STDOUT) {
+    process.stdout.write(`${process.env.FAKE_ELECTRON_STDOUT}\n`);
+  }
+}), parseInt(process.env.FAKE_ELECTRON_LISTEN_DELAY_MS ?? '0', 10));
+
+if (process.env.FAKE_ELECTRON_EXIT_AFTER_MS) {
+  setTimeout(() => process.exit(parseInt(process.env.FAKE_ELECTRON_EXIT_CODE ?? '1', 10)), parseInt(process.env.FAKE_ELECTRON_EXIT_AFTER_MS, 10));
+}
+
+process.on('SIGTERM', () => process.exit(0));
@@ -24,10 +24,12 @@ vi.mock('os', () => ({
 vi.mock('path', () => ({
   default: {
     join: vi.fn((...args: string[]) => args.join('/')),
-    resolve: vi.fn((...args: string[]) => args.join('/'))
+    resolve: vi.fn((...args: string[]) => args.join('/')),
+    dirname: vi.fn((p: string) => p.split('/').slice(0, -1).join('/') || '/')
   },
   join: vi.fn((...args: string[]) => args.join('/')),
-  resolve: vi.fn((...args: string[]) => args.join('/'))
+  resolve: vi.fn((...args: string[]) => args.join('/')),
+  dirname: vi.fn((p: string) => p.split('/').slice(0, -1).join('/') || '/')
 }));
 
 describe('getElectronExecutablePath', () => {
@@ -83,4 +85,26 @@ describe('getElectronExecutablePath', () => {
     const result = getElectronExecutablePath();
     expect(result).toContain('node_modules');
   });
+
+  it('should resolve node_modules/.bin/electron relative to the app path', () => {
+    vi.mocked(os.platform).mockReturnValue('linux' as NodeJS.Platform);
+    vi.mocked(path.resolve).mockImplementation((...args: string[]) => args.join('/'));
+    vi.mocked(fs.existsSync).mockImplementation((p: string | undefined) => {
+      return p === '/projects/my-app/node_modules/.bin/electron';
+    });
+
+    const result = getElectronExecutablePath('/projects/my-app');
+    expect(result).toBe('/projects/my-app/node_modules/.bin/electron');
+  });
+
+  it('should look in parent directories of the app path', () => {
+    vi.mocked(os.platform).mockReturnValue('linux' as NodeJS.Platform);
+    vi.mocked(path.resolve).mockImplementation((...args: string[]) => args.join('/'));
+    vi.mocked(fs.existsSync).mockImplementation((p: string | undefined) => {
+      return p === '/projects/monorepo/node_modules/.bin/electron';
+    });
+
+    const result = getElectronExecutablePath('/projects/monorepo/packages/desktop');
+    expect(result).toBe('/projects/monorepo/node_modules/.bin/electron');
+  });
 });
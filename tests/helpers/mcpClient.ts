@@ -0,0 +1,35 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer } from '../../src/index.js';
+
+export type ToolResult = Awaited<ReturnType<Client['callTool']>>;
+
+/**
+ * A client connected to a server of its own over an in-memory transport
+ */
+export async function connectClient(name: string = 'test-client'): Promise<Client> {
+  const server = createMcpServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name, version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+/**
+ * The JSON a tool returned as its text content
+ */
+export function parseToolText(result: ToolResult) {
+  const content = result.content as Array<{ type: string; text: string }>;
+  return JSON.parse(content[0].text);
+}
+
+/**
+ * The JSON of a resource served as text
+ */
+export async function readResourceJson(client: Client, uri: string) {
+  const [content] = (await client.readResource({ uri })).contents;
+  if (!('text' in content)) {
+    throw new Error(`${uri} is not a text resource`);
+  }
+  return JSON.parse(content.text);
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { buildLaunchArgs, buildLaunchEnv } from '../src/launchConfig.js';
+
+describe('buildLaunchArgs', () => {
+  it('puts debugging switches before the app path', () => {
+    expect(buildLaunchArgs({ appPath: '/app', debugPort: 9222 })).toEqual([
+      '--enable-logging',
+      '--remote-debugging-port=9222',
+      '/app'
+    ]);
+  });
+
+  it('adds the inspector switch and extra arguments', () => {
+    expect(buildLaunchArgs({
+      appPath: '/app',
+      debugPort: 9333,
+      inspectArg: '--inspect=9229',
+      extraArgs: ['--disable-gpu', '--open-file=report.csv']
+    })).toEqual([
+      '--enable-logging',
+      '--remote-debugging-port=9333',
+      '--inspect=9229',
+      '/app',
+      '--disable-gpu',
+      '--open-file=report.csv'
+    ]);
+  });
+
+  it('adds the profile directory before the app path', () => {
+    expect(buildLaunchArgs({ appPath: '/app', debugPort: 0, userDataDir: '/tmp/profile' })).toEqual([
+      '--enable-logging',
+      '--remote-debugging-port=0',
+      '--user-data-dir=/tmp/profile',
+      '/app'
+    ]);
+  });
+
+  it('omits the app path for packaged executables', () => {
+    expect(buildLaunchArgs({ debugPort: 9222, extraArgs: ['--no-sandbox'] })).toEqual([
+      '--enable-logging',
+      '--remote-debugging-port=9222',
+      '--no-sandbox'
+    ]);
+  });
+});
+
+describe('buildLaunchEnv', () => {
+  it('inherits the base environment and enables Electron logging', () => {
+    const env = buildLaunchEnv({ PATH: '/usr/bin', HOME: '/home/test' });
+    expect(env).toEqual({ PATH: '/usr/bin', HOME: '/home/test', ELECTRON_ENABLE_LOGGING: '1' });
+  });
+
+  it('applies overrides and removals', () => {
+    const base = { PATH: '/usr/bin', NODE_OPTIONS: '--inspect', ELECTRON_RUN_AS_NODE: '1' };
+    const env = buildLaunchEnv(base, { NODE_ENV: 'development', PATH: '/opt/bin' }, ['NODE_OPTIONS', 'ELECTRON_RUN_AS_NODE']);
+
+    expect(env).toEqual({ PATH: '/opt/bin', NODE_ENV: 'development', ELECTRON_ENABLE_LOGGING: '1' });
+  });
+
+  it('does not modify the base environment', () => {
+    const base = { NODE_OPTIONS: '--inspect' };
+    buildLaunchEnv(base, { FOO: 'bar' }, ['NODE_OPTIONS']);
+    expect(base).toEqual({ NODE_OPTIONS: '--inspect' });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import { createLogEntry } from '../src/logEntries.js';
+import {
+  LOG_DIR_ENV,
+  LOG_MAX_ENTRIES_ENV,
+  DEFAULT_MAX_LOG_ENTRIES,
+  LogArchiveOptions,
+  getLogSettings,
+  getProcessLogDir,
+  createLogSink,
+  writeLogEntry,
+  closeLogSink,
+  listLogArchive
+} from '../src/logArchive.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+describe('log settings', () => {
+  it('keeps logs in memory only by default', () => {
+    expect(getLogSettings({})).toEqual({ maxEntries: DEFAULT_MAX_LOG_ENTRIES, archive: undefined });
+  });
+
+  it('reads the archive directory and limits from the environment', () => {
+    const settings = getLogSettings({
+      [LOG_DIR_ENV]: '/var/log/electron',
+      [LOG_MAX_ENTRIES_ENV]: '5000',
+      ELECTRON_DEBUG_MCP_LOG_MAX_FILE_BYTES: '1024',
+      ELECTRON_DEBUG_MCP_LOG_MAX_FILE_AGE_MS: '60000',
+      ELECTRON_DEBUG_MCP_LOG_MAX_FILES: '3'
+    });
+    expect(settings).toEqual({
+      maxEntries: 5000,
+      archive: { directory: path.resolve('/var/log/electron'), maxFileBytes: 1024, maxFileAgeMs: 60000, maxFiles: 3 }
+    });
+  });
+
+  it('rejects limits that are not positive integers', () => {
+    expect(() => getLogSettings({ [LOG_MAX_ENTRIES_ENV]: 'lots' })).toThrow(/must be a positive integer/);
+    expect(() => getLogSettings({ [LOG_MAX_ENTRIES_ENV]: '0' })).toThrow(/must be a positive integer/);
+  });
+});
+
+describe('log sink', () => {
+  let dir: string;
+  let options: LogArchiveOptions;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-archive-test-'));
+    options = { directory: dir, maxFileBytes: 1024 * 1024, maxFileAgeMs: 60000, maxFiles: 3 };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes entries as JSON lines in a directory per process', () => {
+    const sink = createLogSink(options, 'electron-1');
+    writeLogEntry(sink, { ...createLogEntry('stdout', 'one', new Date(0)), seq: 1 }, 0);
+    writeLogEntry(sink, { ...createLogEntry('stderr', 'two', new Date(1)), seq: 2 }, 1);
+    closeLogSink(sink);
+
+    const files = listLogArchive(path.join(dir, 'electron-1'));
+    expect(files).toHaveLength(1);
+    const lines = fs.readFileSync(files[0].path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([
+      { seq: 1, time: '1970-01-01T00:00:00.000Z', stream: 'stdout', level: 'info', message: 'one' },
+      { seq: 2, time: '1970-01-01T00:00:00.001Z', stream: 'stderr', level: 'warning', message: 'two' }
+    ]);
+    expect(files[0].bytes).toBe(fs.statSync(files[0].path).size);
+  });
+
+  it('rotates by size and age and keeps the newest files', () => {
+    const sink = createLogSink({ ...options, maxFileBytes: 150 }, 'electron-1');
+    const entry = createLogEntry('stdout', 'x'.repeat(60), new Date(0));
+    writeLogEntry(sink, entry, 0);
+    writeLogEntry(sink, entry, 1000); // Over 150 bytes together, so a new file
+    writeLogEntry(sink, entry, 61000); // Small enough, but the file is over a minute old
+    expect(listLogArchive(sink.directory)).toHaveLength(3);
+
+    writeLogEntry(sink, entry, 62000);
+    closeLogSink(sink);
+    const names = listLogArchive(sink.directory).map(f => f.name);
+    expect(names).toEqual(['1970-01-01T00-00-01-000Z.jsonl', '1970-01-01T00-01-01-000Z.jsonl', '1970-01-01T00-01-02-000Z.jsonl']);
+  });
+
+  it('stops archiving when a write fails', () => {
+    const sink = createLogSink(options, 'electron-1');
+    fs.rmSync(sink.directory, { recursive: true });
+    writeLogEntry(sink, createLogEntry('stdout', 'lost'));
+    expect(sink.error).toMatch(/ENOENT/);
+    expect(sink.file).toBeUndefined();
+  });
+
+  it('refuses process IDs that are not plain names', () => {
+    expect(() => getProcessLogDir(options, '../etc')).toThrow(/Invalid process ID/);
+    expect(getProcessLogDir(options, 'electron-1')).toBe(path.join(dir, 'electron-1'));
+  });
+
+  it('lists nothing for a process without an archive', () => {
+    expect(listLogArchive(path.join(dir, 'missing'))).toEqual([]);
+  });
+
+  it.skipIf(process.platform === 'win32')('archives the logs of a launched app', async () => {
+    const previous = process.env[LOG_DIR_ENV];
+    process.env[LOG_DIR_ENV] = dir;
+    const client = await connectClient('log-archive-test');
+
+    try {
+      const start = await client.callTool({
+        name: 'electron_start',
+        arguments: { executablePath: fakeElectron, env: { FAKE_ELECTRON_STDOUT: 'archived line' }, readyWhen: { logLine: 'archived line' }, startupTimeout: 10000 }
+      });
+      const { processId } = parseToolText(start);
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+
+      // Still listed once the process is gone
+      const { directory, files } = await readResourceJson(client, `electron://logs/${processId}/archive`);
+      expect(directory).toBe(path.join(dir, processId));
+      expect(files).toHaveLength(1);
+      expect(fs.readFileSync(files[0].path, 'utf8')).toContain('"message":"archived line"');
+    } finally {
+      if (previous === undefined) {
+        delete process.env[LOG_DIR_ENV];
+      } else {
+        process.env[LOG_DIR_ENV] = previous;
+      }
+    }
+  }, 20000);
+});
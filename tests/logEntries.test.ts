@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import {
+  MAX_PENDING_LINE_LENGTH,
+  createLineSplitter,
+  splitLines,
+  flushLines,
+  parseChromiumLogLine,
+  createLogEntry,
+  formatLogText
+} from '../src/logEntries.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+describe('line splitting', () => {
+  it('holds back partial lines until they are complete', () => {
+    const splitter = createLineSplitter();
+    expect(splitLines(splitter, 'one\ntw')).toEqual(['one']);
+    expect(splitLines(splitter, 'o\r\nthree')).toEqual(['two']);
+    expect(flushLines(splitter)).toEqual(['three']);
+    expect(flushLines(splitter)).toEqual([]);
+  });
+
+  it('gives up waiting on very long lines', () => {
+    const splitter = createLineSplitter();
+    const long = 'x'.repeat(MAX_PENDING_LINE_LENGTH + 1);
+    expect(splitLines(splitter, long)).toEqual([long]);
+    expect(splitter.pending).toBe('');
+  });
+});
+
+describe('Chromium log lines', () => {
+  it('reads severity and source from the prefix', () => {
+    expect(parseChromiumLogLine('[12345:67890:0214/101530.123456:ERROR:gpu_init.cc(523)] Passthrough is not supported')).toEqual({
+      level: 'error',
+      source: 'gpu_init.cc(523)',
+      message: 'Passthrough is not supported'
+    });
+    expect(parseChromiumLogLine('[0214/101530.123:WARNING:sandbox_linux.cc(400)] InitializeSandbox() called')).toMatchObject({
+      level: 'warning',
+      source: 'sandbox_linux.cc(400)'
+    });
+    expect(parseChromiumLogLine('[1:2:0214/101530.1:VERBOSE1:network_delegate.cc(30)] Request')?.level).toBe('verbose');
+    expect(parseChromiumLogLine('[INFO:CONSOLE(12)] "hello", source: file:///app/index.html (12)')).toMatchObject({
+      level: 'info',
+      source: 'CONSOLE(12)'
+    });
+  });
+
+  it('ignores lines without the prefix', () => {
+    expect(parseChromiumLogLine('[app] started')).toBeUndefined();
+    expect(parseChromiumLogLine('plain output')).toBeUndefined();
+  });
+});
+
+describe('log entries', () => {
+  it('defaults the level by stream', () => {
+    const time = new Date(0);
+    expect(createLogEntry('stdout', 'ready', time)).toEqual({ time, stream: 'stdout', level: 'info', message: 'ready' });
+    expect(createLogEntry('stderr', 'DevTools listening on ws://127.0.0.1:9222/devtools/browser/abc', time)).toMatchObject({ stream: 'stderr', level: 'warning' });
+    expect(createLogEntry('stderr', '[1:2:0214/101530.1:INFO:main.cc(1)] hi', time)).toEqual({
+      time,
+      stream: 'stderr',
+      level: 'info',
+      source: 'main.cc(1)',
+      message: 'hi',
+      raw: '[1:2:0214/101530.1:INFO:main.cc(1)] hi'
+    });
+  });
+
+  it('formats entries as plain text, keeping output lines as printed', () => {
+    const entries = [
+      createLogEntry('stdout', 'ready'),
+      createLogEntry('stderr', '[1:2:0214/101530.1:WARNING:main.cc(1)] careful')
+    ];
+    expect(formatLogText(entries)).toBe('ready\n[1:2:0214/101530.1:WARNING:main.cc(1)] careful');
+  });
+
+  it.skipIf(process.platform === 'win32')('serves logs as text and as JSON', async () => {
+    const client = await connectClient('log-entries-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, env: { FAKE_ELECTRON_STDOUT: 'hello from the app' }, readyWhen: { logLine: 'hello' }, startupTimeout: 10000 }
+    });
+    const { processId } = parseToolText(start);
+
+    try {
+      const text = await client.readResource({ uri: `electron://logs/${processId}` });
+      expect((text.contents[0].text as string).split('\n')).toContain('hello from the app');
+
+      const { entries } = await readResourceJson(client, `electron://logs/${processId}?format=json`);
+      expect(entries).toContainEqual(expect.objectContaining({ stream: 'stdout', level: 'info', message: 'hello from the app' }));
+      expect(entries).toContainEqual(expect.objectContaining({ stream: 'stderr', level: 'warning', message: expect.stringMatching(/^DevTools listening on/) }));
+      // The fixture's leading blank line isn't kept
+      expect(entries.every((e: { message: string }) => e.message.trim() !== '')).toBe(true);
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+});
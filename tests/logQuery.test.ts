@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText } from './helpers/mcpClient.js';
+import { LogEntry, createLogEntry } from '../src/logEntries.js';
+import {
+  compileLogPattern,
+  filterLogEntries,
+  encodeLogCursor,
+  decodeLogCursor,
+  parseTimeBound
+} from '../src/logQuery.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+const entry = (seq: number, stream: 'stdout' | 'stderr', message: string): LogEntry =>
+  ({ ...createLogEntry(stream, message, new Date(seq * 1000)), seq });
+
+const logs = [
+  entry(1, 'stdout', 'starting up'),
+  entry(2, 'stderr', '[1:2:0214/101530.1:WARNING:cache.cc(10)] cache is cold'),
+  entry(3, 'stdout', 'window 1 loaded'),
+  entry(4, 'stderr', '[1:2:0214/101532.1:ERROR:config.cc(5)] ENOENT config.json'),
+  entry(5, 'stdout', 'window 2 loaded')
+];
+
+const seqs = (entries: LogEntry[]) => entries.map(e => e.seq);
+
+describe('filterLogEntries', () => {
+  it('matches substrings or regular expressions', () => {
+    expect(seqs(filterLogEntries(logs, { pattern: 'loaded' }))).toEqual([3, 5]);
+    expect(seqs(filterLogEntries(logs, { pattern: 'window \\d', regex: true }))).toEqual([3, 5]);
+    expect(seqs(filterLogEntries(logs, { pattern: 'window \\d' }))).toEqual([]);
+  });
+
+  it('filters by minimum level', () => {
+    expect(seqs(filterLogEntries(logs, { level: 'warning' }))).toEqual([2, 4]);
+    expect(seqs(filterLogEntries(logs, { level: 'error' }))).toEqual([4]);
+  });
+
+  it('filters by time range and sequence number', () => {
+    expect(seqs(filterLogEntries(logs, { since: new Date(2000), until: new Date(4000) }))).toEqual([2, 3, 4]);
+    expect(seqs(filterLogEntries(logs, { afterSeq: 3 }))).toEqual([4, 5]);
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(() => compileLogPattern('(', true)).toThrow(/Invalid log pattern/);
+  });
+});
+
+describe('log cursors', () => {
+  it('round-trips positions', () => {
+    const cursor = encodeLogCursor({ 'electron-1': 42, 'electron-2': 7 });
+    expect(decodeLogCursor(cursor)).toEqual({ 'electron-1': 42, 'electron-2': 7 });
+  });
+
+  it('rejects cursors it did not make', () => {
+    expect(() => decodeLogCursor('not a cursor')).toThrow(/Invalid log cursor/);
+    expect(() => decodeLogCursor(Buffer.from('[1]').toString('base64url'))).toThrow(/Invalid log cursor/);
+  });
+
+  it('parses time bounds', () => {
+    expect(parseTimeBound('2024-02-14T10:15:30Z', 'since').getTime()).toBe(Date.UTC(2024, 1, 14, 10, 15, 30));
+    expect(() => parseTimeBound('yesterday', 'since')).toThrow(/Invalid since time/);
+  });
+});
+
+describe('electron_logs', () => {
+  it.skipIf(process.platform === 'win32')('queries logs and returns only new lines after a cursor', async () => {
+    const client = await connectClient('log-query-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, env: { FAKE_ELECTRON_STDOUT: 'app ready' }, readyWhen: { logLine: 'app ready' }, startupTimeout: 10000 }
+    });
+    const { processId } = parseToolText(start);
+    const query = async (args: Record<string, unknown>) => {
+      const result = await client.callTool({ name: 'electron_logs', arguments: args });
+      return { isError: result.isError, ...parseToolText(result) };
+    };
+
+    try {
+      const all = await query({});
+      expect(all.entries.map((e: { message: string }) => e.message)).toContain('app ready');
+      expect(all.entries.every((e: { processId: string }) => e.processId === processId)).toBe(true);
+
+      const ready = await query({ processId, pattern: 'ready', tail: 1 });
+      expect(ready.entries).toHaveLength(1);
+      expect(ready.entries[0]).toMatchObject({ processId, stream: 'stdout', level: 'info', message: 'app ready' });
+
+      const warnings = await query({ processId, level: 'warning' });
+      expect(warnings.entries.map((e: { stream: string }) => e.stream)).toEqual(['stderr']);
+
+      const sinceCursor = await query({ processId, cursor: all.nextCursor });
+      expect(sinceCursor.entries).toEqual([]);
+      expect(sinceCursor.nextCursor).toBe(all.nextCursor);
+
+      expect((await query({ processId, level: 'loud' })).isError).toBe(true);
+      expect((await query({ processId: 'electron-missing' })).isError).toBe(true);
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+});
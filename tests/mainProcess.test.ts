@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAIN_PROCESS_TARGET_ID,
+  buildInspectArg,
+  wrapMainProcessExpression
+} from '../src/mainProcess.js';
+
+const fakeElectron = {
+  app: { getName: () => 'test-app' },
+  BrowserWindow: { getAllWindows: () => [1, 2] },
+  ipcMain: { eventNames: () => ['save-file'] }
+};
+
+/**
+ * Evaluates a wrapped expression the way the Node inspector would, with require() in scope
+ */
+function evaluateInMainProcess(expression: string): unknown {
+  const fakeRequire = (name: string) => {
+    if (name !== 'electron') {
+      throw new Error(`Unexpected module ${name}`);
+    }
+    return fakeElectron;
+  };
+  return new Function('require', `return ${wrapMainProcessExpression(expression)};`)(fakeRequire);
+}
+
+describe('Main process debugging helpers', () => {
+  it('uses a stable target ID for the main process', () => {
+    expect(MAIN_PROCESS_TARGET_ID).toBe('main');
+  });
+
+  it('builds --inspect and --inspect-brk switches', () => {
+    expect(buildInspectArg('inspect', 9229)).toBe('--inspect=9229');
+    expect(buildInspectArg('inspect-brk', 9300)).toBe('--inspect-brk=9300');
+  });
+
+  it('exposes app, BrowserWindow and ipcMain to the expression', () => {
+    expect(evaluateInMainProcess('app.getName()')).toBe('test-app');
+    expect(evaluateInMainProcess('BrowserWindow.getAllWindows().length')).toBe(2);
+    expect(evaluateInMainProcess('ipcMain.eventNames()')).toEqual(['save-file']);
+  });
+
+  it('keeps the completion value of statements', () => {
+    expect(evaluateInMainProcess('const count = BrowserWindow.getAllWindows().length; count * 10')).toBe(20);
+  });
+
+  it('escapes quotes and newlines in the expression', () => {
+    expect(evaluateInMainProcess('"it\'s"\n+ " ok"')).toBe("it's ok");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import {
+  MetricsSample,
+  createRingBuffer,
+  pushToRing,
+  ringToArray,
+  resizeRing,
+  extractSeries,
+  summarizeSeries,
+  summarizeSamples
+} from '../src/metricsSeries.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+const sample = (seconds: number, rssBytes: number, heap: number): MetricsSample => ({
+  time: new Date(seconds * 1000),
+  processes: [{ pid: 4242, type: 'browser', cpuPercent: seconds === 0 ? undefined : 5, rssBytes }],
+  targets: { 'page-1': { JSHeapUsedSize: heap } }
+});
+
+describe('ring buffer', () => {
+  it('keeps the most recent items, oldest first', () => {
+    const ring = createRingBuffer<number>(3);
+    for (const n of [1, 2]) {
+      pushToRing(ring, n);
+    }
+    expect(ringToArray(ring)).toEqual([1, 2]);
+
+    for (const n of [3, 4, 5]) {
+      pushToRing(ring, n);
+    }
+    expect(ringToArray(ring)).toEqual([3, 4, 5]);
+    expect(ring.items).toHaveLength(3);
+  });
+
+  it('resizes without losing the newest items', () => {
+    const ring = createRingBuffer<number>(3);
+    for (const n of [1, 2, 3, 4]) {
+      pushToRing(ring, n);
+    }
+    expect(ringToArray(resizeRing(ring, 2))).toEqual([3, 4]);
+
+    const larger = resizeRing(ring, 5);
+    pushToRing(larger, 5);
+    expect(ringToArray(larger)).toEqual([2, 3, 4, 5]);
+  });
+
+  it('rejects capacities that are not positive integers', () => {
+    expect(() => createRingBuffer(0)).toThrow(/positive integer/);
+    expect(() => createRingBuffer(1.5)).toThrow(/positive integer/);
+  });
+});
+
+describe('series summaries', () => {
+  it('splits samples into named series, skipping missing values', () => {
+    const series = extractSeries([sample(0, 100, 10), sample(1, 110, 20)]);
+    expect(Array.from(series.keys())).toEqual([
+      'process:4242:browser:rssBytes',
+      'target:page-1:JSHeapUsedSize',
+      'process:4242:browser:cpuPercent'
+    ]);
+    expect(series.get('process:4242:browser:cpuPercent')).toEqual([{ time: 1000, value: 5 }]);
+  });
+
+  it('reports min, max and the least-squares slope per second', () => {
+    const summary = summarizeSeries([
+      { time: 0, value: 10 },
+      { time: 2000, value: 30 },
+      { time: 4000, value: 20 },
+      { time: 6000, value: 40 }
+    ]);
+    expect(summary).toMatchObject({ count: 4, min: 10, max: 40, first: 10, last: 40 });
+    expect(summary.slopePerSecond).toBeCloseTo(4);
+  });
+
+  it('has no slope for a single point', () => {
+    expect(summarizeSeries([{ time: 5000, value: 7 }])).toEqual({
+      count: 1, min: 7, max: 7, first: 7, last: 7, slopePerSecond: 0
+    });
+  });
+
+  it('summarizes every series of a set of samples', () => {
+    const summaries = summarizeSamples([sample(0, 100, 1000), sample(10, 100, 2000), sample(20, 100, 3000)]);
+    expect(summaries['target:page-1:JSHeapUsedSize'].slopePerSecond).toBeCloseTo(100);
+    expect(summaries['process:4242:browser:rssBytes'].slopePerSecond).toBe(0);
+  });
+});
+
+describe('metrics sampling', () => {
+  it('samples on an interval and serves the series as a resource', async () => {
+    const client = await connectClient('metrics-series-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, startupTimeout: 10000 }
+    });
+    const { processId } = parseToolText(start);
+
+    try {
+      const tooFast = await client.callTool({ name: 'electron_metrics_start', arguments: { processId, intervalMs: 10 } });
+      expect(tooFast.isError).toBe(true);
+
+      const sampling = await client.callTool({ name: 'electron_metrics_start', arguments: { processId, intervalMs: 250, capacity: 3 } });
+      expect(sampling.isError).toBeFalsy();
+      await new Promise(resolve => setTimeout(resolve, 1500));
+
+      const stop = await client.callTool({ name: 'electron_metrics_stop', arguments: { processId } });
+      expect(parseToolText(stop).samples).toBe(3);
+
+      const metrics = await readResourceJson(client, `electron://metrics/${processId}`);
+      expect(metrics).toMatchObject({ processId, sampling: false, intervalMs: 250, capacity: 3, sampleCount: 3 });
+      expect(metrics.samples[0].targets['page-1']).toMatchObject({ JSHeapTotalSize: 8 * 1048576, Nodes: 42 });
+      expect(metrics.samples[0].targets['page-1'].Timestamp).toBeUndefined();
+      // The fake page's heap grows with every sample
+      expect(metrics.summary['target:page-1:JSHeapUsedSize'].slopePerSecond).toBeGreaterThan(0);
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+});
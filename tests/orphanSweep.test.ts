@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SERVER_PID_ENV,
+  parseEnviron,
+  findOrphanedProcesses,
+  confirmOrphanGroup,
+  reapOrphans
+} from '../src/orphanSweep.js';
+
+describe('parseEnviron', () => {
+  it('splits NUL-separated variables', () => {
+    expect(parseEnviron('HOME=/home/test\0PATH=/usr/bin:/bin\0EMPTY=\0')).toEqual({
+      HOME: '/home/test',
+      PATH: '/usr/bin:/bin',
+      EMPTY: ''
+    });
+  });
+
+  it('keeps "=" inside values', () => {
+    expect(parseEnviron('NODE_OPTIONS=--max-old-space-size=4096')).toEqual({
+      NODE_OPTIONS: '--max-old-space-size=4096'
+    });
+  });
+});
+
+describe('findOrphanedProcesses', () => {
+  let procRoot: string;
+
+  const addProcess = (pid: number, pgid: number, env: Record<string, string>, cmdline: string[]) => {
+    const dir = path.join(procRoot, String(pid));
+    fs.mkdirSync(dir);
+    fs.writeFileSync(path.join(dir, 'environ'), Object.entries(env).map(([k, v]) => `${k}=${v}`).join('\0'));
+    fs.writeFileSync(path.join(dir, 'stat'), `${pid} (electron) S 1 ${pgid} ${pgid} 0 -1`);
+    fs.writeFileSync(path.join(dir, 'cmdline'), cmdline.join('\0'));
+  };
+
+  beforeEach(() => {
+    procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'orphan-sweep-test-'));
+    fs.mkdirSync(path.join(procRoot, 'self'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(procRoot, { recursive: true, force: true });
+  });
+
+  it('groups processes left behind by a dead server by process group', () => {
+    addProcess(500, 500, { [SERVER_PID_ENV]: '100' }, ['/app/electron', '--remote-debugging-port=9222', '/app']);
+    addProcess(501, 500, { [SERVER_PID_ENV]: '100' }, ['/app/electron', '--type=renderer']);
+    addProcess(502, 500, { [SERVER_PID_ENV]: '100' }, ['/app/electron', '--type=gpu-process']);
+
+    const orphans = findOrphanedProcesses(procRoot, () => false);
+
+    expect(orphans).toHaveLength(1);
+    expect(orphans[0]).toMatchObject({
+      pgid: 500,
+      serverPid: 100,
+      command: '/app/electron --remote-debugging-port=9222 /app'
+    });
+    expect(orphans[0].pids.sort()).toEqual([500, 501, 502]);
+  });
+
+  it('ignores apps whose server is still running', () => {
+    addProcess(600, 600, { [SERVER_PID_ENV]: '200' }, ['/app/electron']);
+
+    expect(findOrphanedProcesses(procRoot, pid => pid === 200)).toEqual([]);
+  });
+
+  it('ignores apps launched by this server and untagged processes', () => {
+    addProcess(700, 700, { [SERVER_PID_ENV]: String(process.pid) }, ['/app/electron']);
+    addProcess(701, 701, { HOME: '/home/test' }, ['/usr/bin/electron']);
+
+    expect(findOrphanedProcesses(procRoot, () => false)).toEqual([]);
+  });
+
+  it('returns nothing when the proc root cannot be read', () => {
+    expect(findOrphanedProcesses(path.join(procRoot, 'missing'), () => false)).toEqual([]);
+  });
+
+  it('only kills groups that still carry the dead server\'s marker', () => {
+    addProcess(800, 800, { [SERVER_PID_ENV]: '100' }, ['/app/electron']);
+    addProcess(801, 800, { [SERVER_PID_ENV]: '100' }, ['/app/electron', '--type=renderer']);
+    const [group] = findOrphanedProcesses(procRoot, () => false);
+
+    // The leader exited and its PID went to an unrelated process
+    fs.rmSync(path.join(procRoot, '800'), { recursive: true });
+    addProcess(800, 800, { HOME: '/home/test' }, ['/usr/bin/vim']);
+    expect(confirmOrphanGroup(group, procRoot)).toEqual([801]);
+
+    const signalled: number[] = [];
+    expect(reapOrphans([group], procRoot, pid => { signalled.push(pid); })).toEqual([800]);
+    expect(signalled).toEqual([-800]);
+
+    // Nothing of the app is left
+    fs.rmSync(path.join(procRoot, '801'), { recursive: true });
+    signalled.length = 0;
+    expect(reapOrphans([group], procRoot, pid => { signalled.push(pid); })).toEqual([]);
+    expect(signalled).toEqual([]);
+  });
+
+  it('kills confirmed stragglers when their group is gone', () => {
+    addProcess(900, 900, { [SERVER_PID_ENV]: '100' }, ['/app/electron']);
+    const [group] = findOrphanedProcesses(procRoot, () => false);
+    const signalled: number[] = [];
+    const kill = (pid: number) => {
+      signalled.push(pid);
+      if (pid < 0) {
+        throw new Error('ESRCH');
+      }
+    };
+
+    expect(reapOrphans([group], procRoot, kill)).toEqual([900]);
+    expect(signalled).toEqual([-900, 900]);
+  });
+});
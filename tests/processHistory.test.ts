@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import {
+  ProcessHistoryEntry,
+  ProcessHistorySummary,
+  SeenTarget,
+  MAX_HISTORY_ENTRIES,
+  recordTargetsSeen,
+  addHistoryEntry,
+  summarizeHistoryEntry
+} from '../src/processHistory.js';
+import { createLogEntry } from '../src/logEntries.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+function entry(id: string): ProcessHistoryEntry {
+  return {
+    id,
+    name: 'app',
+    mode: 'launched',
+    finalStatus: 'stopped',
+    host: 'localhost',
+    startTime: new Date(0),
+    endTime: new Date(1000),
+    exitCode: 0,
+    signal: null,
+    restartCount: 0,
+    crashes: [],
+    targetsSeen: [],
+    logs: [createLogEntry('stdout', 'a'), createLogEntry('stdout', 'b')]
+  };
+}
+
+describe('recordTargetsSeen', () => {
+  it('keeps targets that have gone away and tracks the latest URL', () => {
+    const seen = new Map<string, SeenTarget>();
+    recordTargetsSeen(seen, [{ id: 't1', type: 'page', title: 'One', url: 'file:///one.html' }], new Date(1));
+    recordTargetsSeen(seen, [{ id: 't2', type: 'page', title: 'Two', url: 'file:///two.html' }], new Date(2));
+    recordTargetsSeen(seen, [{ id: 't2', type: 'page', title: 'Two b', url: 'file:///two-b.html' }], new Date(3));
+
+    expect(Array.from(seen.keys())).toEqual(['t1', 't2']);
+    expect(seen.get('t2')).toMatchObject({ url: 'file:///two-b.html', firstSeen: new Date(2), lastSeen: new Date(3) });
+  });
+});
+
+describe('addHistoryEntry', () => {
+  it('drops the oldest entries beyond the limit', () => {
+    const history = new Map<string, ProcessHistoryEntry>();
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 2; i++) {
+      addHistoryEntry(history, entry(`p${i}`));
+    }
+
+    expect(history.size).toBe(MAX_HISTORY_ENTRIES);
+    expect(history.has('p0')).toBe(false);
+    expect(history.has('p1')).toBe(false);
+    expect(history.has(`p${MAX_HISTORY_ENTRIES + 1}`)).toBe(true);
+  });
+
+  it('summarizes without the log buffer', () => {
+    const summary = summarizeHistoryEntry(entry('p1'));
+    expect(summary).toMatchObject({ id: 'p1', logEntries: 2, crashes: 0, targetsSeen: 0 });
+    expect(summary).not.toHaveProperty('logs');
+  });
+});
+
+describe('post-mortem history', () => {
+  it.skipIf(process.platform === 'win32')('keeps the logs of an app after it exits', async () => {
+    const client = await connectClient('history-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: {
+        executablePath: fakeElectron,
+        env: { FAKE_ELECTRON_STDOUT: 'last words', FAKE_ELECTRON_EXIT_AFTER_MS: '1000', FAKE_ELECTRON_EXIT_CODE: '0' },
+        startupTimeout: 5000
+      }
+    });
+    const { processId } = parseToolText(start);
+
+    let history: { processes: ProcessHistorySummary[] } = { processes: [] };
+    for (let i = 0; i < 100; i++) {
+      const result = await client.callTool({ name: 'electron_history', arguments: {} });
+      history = parseToolText(result);
+      if (history.processes.length > 0) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    expect(history.processes[0]).toMatchObject({ id: processId, finalStatus: 'stopped', exitCode: 0 });
+
+    const logs = await client.readResource({ uri: `electron://logs/${processId}` });
+    expect(logs.contents[0].text).toContain('last words');
+
+    const resources = await client.listResources();
+    expect(resources.resources.map(r => r.uri)).toContain(`electron://history/${processId}`);
+
+    const detail: ProcessHistoryEntry = await readResourceJson(client, `electron://history/${processId}`);
+    expect(detail.logs.map(e => e.message)).toContain('last words');
+  }, 10000);
+});
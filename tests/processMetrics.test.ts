@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import {
+  processTypeFromCommandLine,
+  processTypeFromSystemInfo,
+  parseVmRss,
+  readProcessTree,
+  mergeProcessSamples,
+  computeCpuPercents,
+  matchTargetsToWebContents
+} from '../src/processMetrics.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+// pid (comm) state ppid pgrp session tty tpgid flags minflt cminflt majflt cmajflt utime stime ...
+const stat = (pid: number, ppid: number, utime: number, stime: number) =>
+  `${pid} (electron) S ${ppid} ${pid} ${pid} 0 -1 4194560 100 0 0 0 ${utime} ${stime} 0 0 20 0 1 0`;
+
+describe('process types', () => {
+  it('reads the --type switch', () => {
+    expect(processTypeFromCommandLine(['/app/electron', '/app'])).toBe('browser');
+    expect(processTypeFromCommandLine(['/app/electron', '--type=renderer', '--renderer-client-id=4'])).toBe('renderer');
+    expect(processTypeFromCommandLine(['/app/electron', '--type=gpu-process'])).toBe('gpu');
+    expect(processTypeFromCommandLine(['/app/electron', '--type=utility', '--utility-sub-type=network.mojom.NetworkService'])).toBe('utility');
+    expect(processTypeFromCommandLine(['/app/electron', '--type=broker'])).toBe('other');
+  });
+
+  it('reads SystemInfo process types', () => {
+    expect(processTypeFromSystemInfo('GPU')).toBe('gpu');
+    expect(processTypeFromSystemInfo('renderer')).toBe('renderer');
+    expect(processTypeFromSystemInfo('sandbox helper')).toBe('other');
+  });
+});
+
+describe('/proc parsing', () => {
+  it('reads VmRSS', () => {
+    expect(parseVmRss('Name:\telectron\nVmRSS:\t  204800 kB\nThreads:\t12\n')).toBe(204800 * 1024);
+    expect(parseVmRss('Name:\tkthreadd\n')).toBeUndefined();
+  });
+});
+
+describe('readProcessTree', () => {
+  let procRoot: string;
+
+  const addProcess = (pid: number, ppid: number, cmdline: string[], rssKb: number, ticks: number) => {
+    const dir = path.join(procRoot, String(pid));
+    fs.mkdirSync(dir);
+    fs.writeFileSync(path.join(dir, 'stat'), stat(pid, ppid, ticks, 0));
+    fs.writeFileSync(path.join(dir, 'cmdline'), cmdline.join('\0'));
+    fs.writeFileSync(path.join(dir, 'status'), `Name:\telectron\nVmRSS:\t${rssKb} kB\n`);
+  };
+
+  beforeEach(() => {
+    procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'process-tree-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(procRoot, { recursive: true, force: true });
+  });
+
+  it('collects a process and all its descendants', () => {
+    addProcess(500, 1, ['/app/electron', '/app'], 1000, 300);
+    addProcess(510, 500, ['/app/electron', '--type=zygote'], 100, 0);
+    addProcess(511, 510, ['/app/electron', '--type=renderer'], 2000, 150);
+    addProcess(520, 500, ['/app/electron', '--type=gpu-process'], 500, 50);
+    addProcess(600, 1, ['/usr/bin/other'], 10, 0);
+
+    const tree = readProcessTree(500, procRoot);
+
+    expect(tree.map(p => [p.pid, p.type])).toEqual([[500, 'browser'], [510, 'zygote'], [520, 'gpu'], [511, 'renderer']]);
+    expect(tree.find(p => p.pid === 511)).toMatchObject({ ppid: 510, cpuSeconds: 1.5, rssBytes: 2000 * 1024 });
+  });
+
+  it('finds nothing for an unknown process', () => {
+    expect(readProcessTree(999, procRoot)).toEqual([]);
+  });
+});
+
+describe('sample arithmetic', () => {
+  it('prefers Chromium process types and keeps processes only one source knows', () => {
+    const merged = mergeProcessSamples(
+      [{ pid: 1, type: 'browser', cpuSeconds: 2, rssBytes: 100 }, { pid: 2, type: 'other', cpuSeconds: 1, rssBytes: 50 }],
+      [{ pid: 2, type: 'utility', cpuSeconds: 1.2 }, { pid: 3, type: 'gpu', cpuSeconds: 0.5 }]
+    );
+    expect(merged).toEqual([
+      { pid: 1, type: 'browser', cpuSeconds: 2, rssBytes: 100 },
+      { pid: 2, type: 'utility', cpuSeconds: 1, rssBytes: 50 },
+      { pid: 3, type: 'gpu', cpuSeconds: 0.5 }
+    ]);
+  });
+
+  it('computes CPU% between samples', () => {
+    const percents = computeCpuPercents(
+      { time: 0, processes: [{ pid: 1, type: 'browser', cpuSeconds: 1 }] },
+      { time: 2000, processes: [{ pid: 1, type: 'browser', cpuSeconds: 1.5 }, { pid: 2, type: 'renderer', cpuSeconds: 3 }] }
+    );
+    expect(percents.get(1)).toBe(25);
+    expect(percents.has(2)).toBe(false);
+  });
+
+  it('maps targets to renderers only when the match is unambiguous', () => {
+    const targets = [
+      { id: 'a', url: 'file:///app/index.html', title: 'Main' },
+      { id: 'b', url: 'file:///app/settings.html', title: 'Settings' },
+      { id: 'c', url: 'about:blank', title: '' }
+    ];
+    const webContents = [
+      { pid: 11, url: 'file:///app/index.html', title: 'Main' },
+      { pid: 12, url: 'file:///app/settings.html', title: 'Settings' },
+      { pid: 13, url: 'about:blank', title: '' },
+      { pid: 14, url: 'about:blank', title: '' }
+    ];
+    expect(Array.from(matchTargetsToWebContents(targets, webContents))).toEqual([['a', 11], ['b', 12]]);
+  });
+});
+
+describe('process metrics in electron://process/{id}', () => {
+  it.skipIf(process.platform !== 'linux')('reports each process with its type, RSS and renderer targets', async () => {
+    const client = await connectClient('metrics-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, env: { FAKE_ELECTRON_RENDERER: '1' }, startupTimeout: 10000 }
+    });
+    const { processId, pid } = parseToolText(start);
+
+    try {
+      const { processes, unmappedTargets } = await readResourceJson(client, `electron://process/${processId}`);
+
+      const browser = processes.find((p: { type: string }) => p.type === 'browser');
+      const renderer = processes.find((p: { type: string }) => p.type === 'renderer');
+      expect(browser).toMatchObject({ pid, targetIds: [] });
+      expect(browser.rssBytes).toBeGreaterThan(0);
+      expect(typeof browser.cpuPercent).toBe('number');
+      expect(renderer).toMatchObject({ targetIds: ['page-1'], jsHeapUsedBytes: 1048576, jsHeapTotalBytes: 2097152 });
+      expect(unmappedTargets).toBeUndefined();
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { spawn, ChildProcess } from 'child_process';
+import { readFileSync } from 'fs';
+import { shutdownProcess, waitForExit } from '../src/processShutdown.js';
+import { SERVER_PID_ENV } from '../src/orphanSweep.js';
+
+const spawned: ChildProcess[] = [];
+
+/**
+ * Starts a long-running node process in its own process group, like Electron is launched
+ */
+function spawnNode(script: string): ChildProcess {
+  const child = spawn(process.execPath, ['-e', script], {
+    stdio: ['pipe', 'ignore', 'ignore'],
+    detached: process.platform !== 'win32'
+  });
+  spawned.push(child);
+  return child;
+}
+
+const keepAlive = 'setInterval(() => {}, 1000);';
+
+// Dead, or a zombie waiting for init to reap it
+function isGone(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return true;
+  }
+  return process.platform === 'linux' && / Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+}
+
+describe.skipIf(process.platform === 'win32')('shutdownProcess', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const child of spawned.splice(0)) {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGKILL');
+      }
+    }
+  });
+
+  it('stops at the quit step when the app quits on request', async () => {
+    const child = spawnNode(`process.stdin.on('data', () => process.exit(0)); ${keepAlive}`);
+
+    const result = await shutdownProcess(child, {
+      gracePeriodMs: 2000,
+      requestQuit: async () => {
+        child.stdin!.write('quit\n');
+      }
+    });
+
+    expect(result.method).toBe('quit');
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('escalates to SIGTERM when the quit request is ignored', async () => {
+    const child = spawnNode(keepAlive);
+
+    const result = await shutdownProcess(child, {
+      gracePeriodMs: 200,
+      requestQuit: async () => undefined
+    });
+
+    expect(result.method).toBe('sigterm');
+    expect(result.signal).toBe('SIGTERM');
+  });
+
+  it('escalates to SIGKILL when SIGTERM is ignored', async () => {
+    const child = spawnNode(`process.on('SIGTERM', () => {}); ${keepAlive}`);
+    // Give the child time to install its SIGTERM handler
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const result = await shutdownProcess(child, { gracePeriodMs: 200 });
+
+    expect(result.method).toBe('sigkill');
+    expect(result.signal).toBe('SIGKILL');
+  });
+
+  it('does not wait for a quit request that never answers', async () => {
+    const child = spawnNode(keepAlive);
+
+    const result = await shutdownProcess(child, {
+      gracePeriodMs: 200,
+      requestQuit: () => new Promise(() => undefined)
+    });
+
+    expect(result.method).toBe('sigterm');
+    expect(result.durationMs).toBeLessThan(2000);
+  });
+
+  it('reports processes that already exited', async () => {
+    const child = spawnNode('process.exit(3)');
+    await waitForExit(child, 2000);
+
+    const result = await shutdownProcess(child);
+
+    expect(result).toMatchObject({ method: 'already-exited', exitCode: 3 });
+  });
+
+  it('leaves the group of an app that exited earlier alone once it is empty', async () => {
+    const child = spawnNode('process.exit(0)');
+    await waitForExit(child, 2000);
+    const kill = vi.spyOn(process, 'kill');
+
+    await shutdownProcess(child);
+
+    // The group's ID may belong to an unrelated process by now
+    expect(kill).not.toHaveBeenCalledWith(-child.pid!, 'SIGKILL');
+  });
+
+  it.skipIf(process.platform !== 'linux')('kills what an app that exited earlier left in its group', async () => {
+    const child = spawn(process.execPath, ['-e',
+      `const { spawn } = require('child_process');` +
+      `const grandchild = spawn(process.execPath, ['-e', ${JSON.stringify(keepAlive)}], { stdio: 'ignore' });` +
+      `console.log(grandchild.pid); grandchild.unref(); process.exit(0);`
+    ], { stdio: ['ignore', 'pipe', 'ignore'], detached: true, env: { ...process.env, [SERVER_PID_ENV]: String(process.pid) } });
+    spawned.push(child);
+
+    const grandchildPid = await new Promise<number>((resolve) => {
+      child.stdout!.once('data', (data: Buffer) => resolve(parseInt(data.toString(), 10)));
+    });
+    await waitForExit(child, 2000);
+
+    const result = await shutdownProcess(child);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(result.method).toBe('already-exited');
+    expect(isGone(grandchildPid)).toBe(true);
+  });
+
+  it('kills the children in the process group', async () => {
+    const child = spawn(process.execPath, ['-e',
+      `const { spawn } = require('child_process');` +
+      `const grandchild = spawn(process.execPath, ['-e', ${JSON.stringify(keepAlive)}], { stdio: 'ignore' });` +
+      `console.log(grandchild.pid); ${keepAlive}`
+    ], { stdio: ['ignore', 'pipe', 'ignore'], detached: true });
+    spawned.push(child);
+
+    const grandchildPid = await new Promise<number>((resolve) => {
+      child.stdout!.once('data', (data: Buffer) => resolve(parseInt(data.toString(), 10)));
+    });
+
+    expect(isGone(grandchildPid)).toBe(false);
+
+    await shutdownProcess(child, { gracePeriodMs: 500 });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(isGone(grandchildPid)).toBe(true);
+  });
+});
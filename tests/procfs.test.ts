@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseProcStat, listProcessIds } from '../src/procfs.js';
+
+describe('parseProcStat', () => {
+  it('reads the parent PID, process group and CPU ticks', () => {
+    // pid (comm) state ppid pgrp session tty tpgid flags minflt cminflt majflt cmajflt utime stime ...
+    expect(parseProcStat('4300 (electron) S 4242 4242 4242 0 -1 4194560 100 0 0 0 150 50 0 0 20 0 1 0')).toEqual({
+      ppid: 4242,
+      pgid: 4242,
+      cpuTicks: 200
+    });
+  });
+
+  it('copes with spaces and parentheses in the command name', () => {
+    expect(parseProcStat('4300 (my app (beta)) S 4242 4242 4242 0 -1')).toEqual({ ppid: 4242, pgid: 4242, cpuTicks: undefined });
+  });
+
+  it('rejects lines without a process group', () => {
+    expect(parseProcStat('4300 (my app (beta)) S 4242')).toBeUndefined();
+  });
+});
+
+describe('listProcessIds', () => {
+  let procRoot: string;
+
+  beforeEach(() => {
+    procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'procfs-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(procRoot, { recursive: true, force: true });
+  });
+
+  it('lists process directories only', () => {
+    for (const entry of ['1', '500', 'self', 'sys']) {
+      fs.mkdirSync(path.join(procRoot, entry));
+    }
+    expect(listProcessIds(procRoot).sort((a, b) => a - b)).toEqual([1, 500]);
+  });
+
+  it('finds nothing when the proc root cannot be read', () => {
+    expect(listProcessIds(path.join(procRoot, 'missing'))).toEqual([]);
+  });
+});
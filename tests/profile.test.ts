@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText, readResourceJson } from './helpers/mcpClient.js';
+import { TEMP_PROFILE_PREFIX, createTemporaryProfile, removeTemporaryProfile } from '../src/profile.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+describe('temporary profiles', () => {
+  const created: string[] = [];
+
+  afterEach(() => {
+    for (const dir of created.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('creates an empty profile in the temp directory', () => {
+    const dir = createTemporaryProfile();
+    created.push(dir);
+
+    expect(path.basename(dir).startsWith(TEMP_PROFILE_PREFIX)).toBe(true);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('seeds the profile from a fixture', () => {
+    const fixture = fs.mkdtempSync(path.join(os.tmpdir(), 'profile-fixture-'));
+    created.push(fixture);
+    fs.mkdirSync(path.join(fixture, 'Local Storage'));
+    fs.writeFileSync(path.join(fixture, 'Local Storage', 'leveldb'), 'data');
+
+    const dir = createTemporaryProfile(fixture);
+    created.push(dir);
+
+    expect(fs.readFileSync(path.join(dir, 'Local Storage', 'leveldb'), 'utf8')).toBe('data');
+  });
+
+  it('rejects a missing fixture', () => {
+    expect(() => createTemporaryProfile(path.join(os.tmpdir(), 'no-such-fixture'))).toThrow('is not a directory');
+  });
+
+  it('removes a profile', () => {
+    const dir = createTemporaryProfile();
+    expect(removeTemporaryProfile(dir)).toBe(true);
+    expect(fs.existsSync(dir)).toBe(false);
+  });
+});
+
+describe('electron_start with an isolated profile', () => {
+  const created: string[] = [];
+
+  afterEach(() => {
+    for (const dir of created.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it.skipIf(process.platform === 'win32')('launches with a seeded temporary profile and deletes it on stop', async () => {
+    const fixture = fs.mkdtempSync(path.join(os.tmpdir(), 'profile-fixture-'));
+    created.push(fixture);
+    fs.writeFileSync(path.join(fixture, 'Preferences'), '{}');
+
+    const client = await connectClient('profile-test');
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: {
+        executablePath: fakeElectron,
+        profileFixture: fixture,
+        // The port can only be found through DevToolsActivePort in the profile
+        env: { FAKE_ELECTRON_PORT_REPORT: 'file' },
+        startupTimeout: 10000
+      }
+    });
+    const { processId, userDataDir } = parseToolText(start);
+
+    expect(start.isError).toBeFalsy();
+    expect(fs.existsSync(path.join(userDataDir, 'Preferences'))).toBe(true);
+
+    const info = await readResourceJson(client, `electron://process/${processId}`);
+    expect(info.profile).toMatchObject({ userDataDir, temporary: true, keep: false, fixture });
+
+    await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    expect(fs.existsSync(userDataDir)).toBe(false);
+  });
+
+  it.skipIf(process.platform === 'win32')('keeps the profile when asked to', async () => {
+    const client = await connectClient('profile-test');
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, isolatedProfile: true, keepProfile: true, startupTimeout: 10000 }
+    });
+    const { processId, userDataDir } = parseToolText(start);
+    created.push(userDataDir);
+
+    await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    expect(fs.existsSync(userDataDir)).toBe(true);
+  });
+});
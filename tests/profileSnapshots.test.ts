@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText } from './helpers/mcpClient.js';
+import {
+  SNAPSHOT_DIR_ENV,
+  validateSnapshotName,
+  resolveSnapshot,
+  saveSnapshot,
+  restoreSnapshot
+} from '../src/profileSnapshots.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-test-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function makeProfile(name: string, files: Record<string, string>): string {
+  const dir = path.join(tmpDir, name);
+  for (const [file, contents] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), contents);
+  }
+  return dir;
+}
+
+describe('profile snapshots', () => {
+  it('rejects names that are not plain directory names', () => {
+    expect(() => validateSnapshotName('logged-in_v2.1')).not.toThrow();
+    expect(() => validateSnapshotName('../escape')).toThrow('Invalid snapshot name');
+    expect(() => validateSnapshotName('..')).toThrow('Invalid snapshot name');
+  });
+
+  it('saves a profile without Chromium lock files', () => {
+    const profile = makeProfile('profile', {
+      'Local Storage/leveldb/000003.log': 'state',
+      'Cookies': 'cookies',
+      'SingletonLock': 'host-123',
+      'DevToolsActivePort': '9222'
+    });
+    const snapshotDir = path.join(tmpDir, 'snapshots');
+
+    const snapshot = saveSnapshot(profile, 'logged-in', false, snapshotDir);
+
+    expect(snapshot).toMatchObject({ name: 'logged-in', files: 2, sizeBytes: 'state'.length + 'cookies'.length });
+    expect(fs.readdirSync(snapshot.path).sort()).toEqual(['Cookies', 'Local Storage']);
+    expect(fs.readdirSync(snapshotDir)).toEqual(['logged-in']);
+  });
+
+  it('refuses to overwrite a snapshot unless asked to', () => {
+    const snapshotDir = path.join(tmpDir, 'snapshots');
+    saveSnapshot(makeProfile('first', { 'Cookies': 'one' }), 'state', false, snapshotDir);
+
+    expect(() => saveSnapshot(makeProfile('second', { 'Cookies': 'two' }), 'state', false, snapshotDir)).toThrow('already exists');
+    saveSnapshot(path.join(tmpDir, 'second'), 'state', true, snapshotDir);
+    expect(fs.readFileSync(path.join(snapshotDir, 'state', 'Cookies'), 'utf8')).toBe('two');
+  });
+
+  it('replaces the profile contents on restore', () => {
+    const snapshotDir = path.join(tmpDir, 'snapshots');
+    saveSnapshot(makeProfile('saved', { 'Cookies': 'saved' }), 'state', false, snapshotDir);
+    const profile = makeProfile('current', { 'Cookies': 'current', 'Cache/data_0': 'cache' });
+
+    restoreSnapshot('state', profile, snapshotDir);
+
+    expect(fs.readdirSync(profile)).toEqual(['Cookies']);
+    expect(fs.readFileSync(path.join(profile, 'Cookies'), 'utf8')).toBe('saved');
+  });
+
+  it('reports missing snapshots', () => {
+    expect(() => resolveSnapshot('missing', path.join(tmpDir, 'snapshots'))).toThrow('Snapshot "missing" not found');
+  });
+});
+
+describe('snapshot tools', () => {
+  let previousSnapshotDir: string | undefined;
+
+  beforeEach(() => {
+    previousSnapshotDir = process.env[SNAPSHOT_DIR_ENV];
+    process.env[SNAPSHOT_DIR_ENV] = path.join(tmpDir, 'snapshots');
+  });
+
+  afterEach(() => {
+    if (previousSnapshotDir === undefined) {
+      delete process.env[SNAPSHOT_DIR_ENV];
+    } else {
+      process.env[SNAPSHOT_DIR_ENV] = previousSnapshotDir;
+    }
+  });
+
+  it.skipIf(process.platform === 'win32')('snapshots a running app and starts a later run from it', async () => {
+    const client = await connectClient('snapshot-test');
+    const fixture = makeProfile('fixture', { 'Preferences': '{"theme":"dark"}' });
+
+    const first = parseToolText(await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, profileFixture: fixture, startupTimeout: 10000 }
+    }));
+    fs.writeFileSync(path.join(first.userDataDir, 'Cookies'), 'session=1');
+
+    // Without a main process inspector nothing can flush storage, so the app is stopped for the copy
+    const snapshot = parseToolText(await client.callTool({
+      name: 'electron_profile_snapshot',
+      arguments: { processId: first.processId, name: 'signed-in' }
+    }));
+    expect(snapshot).toMatchObject({ method: 'stopped', relaunched: true, snapshot: { name: 'signed-in', files: 2 } });
+
+    const list = parseToolText(await client.callTool({ name: 'electron_list', arguments: {} }));
+    expect(list.processes[0]).toMatchObject({ id: first.processId, status: 'running' });
+    await client.callTool({ name: 'electron_stop', arguments: { processId: first.processId, gracePeriodMs: 1000 } });
+
+    const second = parseToolText(await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, profileSnapshot: 'signed-in', startupTimeout: 10000 }
+    }));
+    expect(fs.readFileSync(path.join(second.userDataDir, 'Cookies'), 'utf8')).toBe('session=1');
+
+    fs.writeFileSync(path.join(second.userDataDir, 'Cookies'), 'session=2');
+    const restore = parseToolText(await client.callTool({
+      name: 'electron_profile_restore',
+      arguments: { processId: second.processId, name: 'signed-in' }
+    }));
+    expect(restore.relaunched).toBe(true);
+    expect(fs.readFileSync(path.join(second.userDataDir, 'Cookies'), 'utf8')).toBe('session=1');
+
+    await client.callTool({ name: 'electron_stop', arguments: { processId: second.processId, gracePeriodMs: 1000 } });
+  }, 30000);
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText } from './helpers/mcpClient.js';
+import {
+  compileReadinessPatterns,
+  findReadinessTarget,
+  logsMatch,
+  isTruthyEvaluation,
+  describeReadinessConditions
+} from '../src/readiness.js';
+import { createLogEntry } from '../src/logEntries.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+describe('readiness helpers', () => {
+  it('rejects invalid patterns up front', () => {
+    expect(() => compileReadinessPatterns({ logLine: '(' })).toThrow('Invalid readiness pattern');
+    expect(compileReadinessPatterns({ targetUrl: 'index\\.html$' }).targetUrl?.test('file:///app/index.html')).toBe(true);
+  });
+
+  it('picks the first page target whose URL matches', () => {
+    const targets = [
+      { id: 'sw', type: 'service_worker', url: 'file:///app/index.html' },
+      { id: 'splash', type: 'page', url: 'file:///app/splash.html' },
+      { id: 'main', type: 'page', url: 'file:///app/index.html' }
+    ];
+    expect(findReadinessTarget(targets, /index\.html/)?.id).toBe('main');
+    expect(findReadinessTarget(targets)?.id).toBe('splash');
+    expect(findReadinessTarget(targets, /settings/)).toBeUndefined();
+  });
+
+  it('matches log entries line by line', () => {
+    const logs = ['starting', 'server listening on 3000'].map(line => createLogEntry('stdout', line));
+    expect(logsMatch(logs, /^server listening/)).toBe(true);
+    expect(logsMatch(logs.slice(0, 1), /listening/)).toBe(false);
+  });
+
+  it('reads Runtime.evaluate results', () => {
+    expect(isTruthyEvaluation({ result: { type: 'boolean', value: true } })).toBe(true);
+    expect(isTruthyEvaluation({ result: { type: 'number', value: 0 } })).toBe(false);
+    expect(isTruthyEvaluation({ result: { type: 'object' }, exceptionDetails: { text: 'Uncaught' } })).toBe(false);
+    expect(isTruthyEvaluation(undefined)).toBe(false);
+  });
+
+  it('describes conditions', () => {
+    expect(describeReadinessConditions({ logLine: 'ready', loadEvent: true })).toEqual([
+      'a log line matching /ready/',
+      'the load event'
+    ]);
+  });
+});
+
+describe('electron_start readiness', () => {
+  it.skipIf(process.platform === 'win32')('succeeds once every condition holds', async () => {
+    const client = await connectClient('readiness-test');
+
+    const result = await client.callTool({
+      name: 'electron_start',
+      arguments: {
+        executablePath: fakeElectron,
+        env: { FAKE_ELECTRON_STDOUT: 'window shown' },
+        startupTimeout: 10000,
+        readyWhen: {
+          targetUrl: 'index\\.html$',
+          logLine: 'window shown',
+          expression: "document.title === 'Fake Window'",
+          loadEvent: true
+        }
+      }
+    });
+
+    expect(result.isError).toBeFalsy();
+    const { processId } = parseToolText(result);
+    await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+  });
+
+  it.skipIf(process.platform === 'win32')('fails with the captured logs and stops the app when a condition is not met', async () => {
+    const client = await connectClient('readiness-test');
+
+    const result = await client.callTool({
+      name: 'electron_start',
+      arguments: {
+        executablePath: fakeElectron,
+        env: { FAKE_ELECTRON_STDOUT: 'still loading' },
+        startupTimeout: 1500,
+        readyWhen: { expression: "document.title === 'Settings'" }
+      }
+    });
+
+    expect(result.isError).toBe(true);
+    const { error } = parseToolText(result);
+    expect(error).toContain("still waiting for `document.title === 'Settings'` to be truthy");
+    expect(error).toContain('still loading');
+
+    const list = parseToolText(await client.callTool({ name: 'electron_list', arguments: {} }));
+    expect(list.processes).toHaveLength(0);
+  });
+
+  it.skipIf(process.platform === 'win32')('fails when the app exits before it is ready', async () => {
+    const client = await connectClient('readiness-test');
+
+    const result = await client.callTool({
+      name: 'electron_start',
+      arguments: {
+        executablePath: fakeElectron,
+        env: { FAKE_ELECTRON_PORT_REPORT: 'none', FAKE_ELECTRON_EXIT_AFTER_MS: '200', FAKE_ELECTRON_EXIT_CODE: '7' },
+        startupTimeout: 5000
+      }
+    });
+
+    expect(result.isError).toBe(true);
+    expect(parseToolText(result).error).toContain('Process exited with code 7 before it was ready');
+  });
+});
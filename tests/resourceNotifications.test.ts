@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { ResourceUpdatedNotificationSchema, ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { connectClient, parseToolText } from './helpers/mcpClient.js';
+import {
+  RESOURCE_NOTIFY_DELAY_MS,
+  ResourceNotifier,
+  createResourceNotifier,
+  subscribeResource,
+  unsubscribeResource,
+  processResourceUris,
+  notifyResourcesUpdated,
+  notifyResourceListChanged,
+  flushResourceNotifications
+} from '../src/resourceNotifications.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+function recordingNotifier(): { notifier: ResourceNotifier; updated: string[]; listChanged: number[] } {
+  const notifier = createResourceNotifier();
+  const updated: string[] = [];
+  const listChanged: number[] = [];
+  notifier.send = {
+    updated: async (uri) => {
+      updated.push(uri);
+    },
+    listChanged: async () => {
+      listChanged.push(1);
+    }
+  };
+  return { notifier, updated, listChanged };
+}
+
+describe('resource notifications', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('only accepts subscriptions to resources that change', () => {
+    const notifier = createResourceNotifier();
+    subscribeResource(notifier, 'electron://logs/electron-1');
+    subscribeResource(notifier, 'electron://logs/electron-1?format=json');
+    subscribeResource(notifier, 'electron://process/electron-1');
+    subscribeResource(notifier, 'electron://targets');
+    subscribeResource(notifier, 'electron://events/electron-1/page-1');
+    expect(notifier.subscriptions.size).toBe(5);
+
+    expect(() => subscribeResource(notifier, 'electron://info')).toThrow(/cannot be subscribed/);
+    expect(() => subscribeResource(notifier, 'file:///etc/passwd')).toThrow(/cannot be subscribed/);
+  });
+
+  it('maps process changes to the resources they affect', () => {
+    expect(processResourceUris('electron-1', 'logs')).toEqual(['electron://logs/electron-1', 'electron://logs/electron-1?format=json']);
+    expect(processResourceUris('electron-1', 'state')).toEqual(['electron://process/electron-1', 'electron://targets']);
+  });
+
+  it('announces each subscribed resource once per burst of changes', () => {
+    vi.useFakeTimers();
+    const { notifier, updated, listChanged } = recordingNotifier();
+    subscribeResource(notifier, 'electron://logs/electron-1');
+
+    for (let i = 0; i < 50; i++) {
+      notifyResourcesUpdated(notifier, processResourceUris('electron-1', 'logs'));
+    }
+    notifyResourcesUpdated(notifier, processResourceUris('electron-2', 'logs'));
+    notifyResourceListChanged(notifier);
+    notifyResourceListChanged(notifier);
+    expect(updated).toEqual([]);
+
+    vi.advanceTimersByTime(RESOURCE_NOTIFY_DELAY_MS);
+    expect(updated).toEqual(['electron://logs/electron-1']);
+    expect(listChanged).toHaveLength(1);
+
+    unsubscribeResource(notifier, 'electron://logs/electron-1');
+    notifyResourcesUpdated(notifier, processResourceUris('electron-1', 'logs'));
+    vi.advanceTimersByTime(RESOURCE_NOTIFY_DELAY_MS);
+    expect(updated).toHaveLength(1);
+  });
+
+  it('drops changes while no client is connected', () => {
+    const notifier = createResourceNotifier();
+    subscribeResource(notifier, 'electron://targets');
+    notifyResourcesUpdated(notifier, ['electron://targets']);
+    flushResourceNotifications(notifier);
+    expect(notifier.pending.size).toBe(0);
+    expect(notifier.flushTimer).toBeUndefined();
+
+    notifier.send = { updated: () => Promise.reject(new Error('Not connected')), listChanged: () => Promise.reject(new Error('Not connected')) };
+    notifyResourcesUpdated(notifier, ['electron://targets']);
+    notifyResourceListChanged(notifier);
+    expect(() => flushResourceNotifications(notifier)).not.toThrow();
+  });
+
+  it.skipIf(process.platform === 'win32')('notifies subscribed clients when processes come, crash and go', async () => {
+    const client = await connectClient('resource-notifications-test');
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true });
+    await expect(client.subscribeResource({ uri: 'electron://info' })).rejects.toThrow(/cannot be subscribed/);
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: { executablePath: fakeElectron, env: { FAKE_ELECTRON_EXIT_AFTER_MS: '1000' }, startupTimeout: 10000 }
+    });
+    const { processId } = parseToolText(start);
+    await client.subscribeResource({ uri: `electron://process/${processId}` });
+
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 60 && !condition(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    };
+
+    try {
+      await waitFor(() => listChanged > 0);
+      expect(listChanged).toBeGreaterThan(0);
+
+      // The fake app exits with code 1, so it is kept as crashed
+      await waitFor(() => updated.includes(`electron://process/${processId}`));
+      expect(updated).toEqual([`electron://process/${processId}`]);
+
+      const seen = listChanged;
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+      await waitFor(() => listChanged > seen);
+      expect(listChanged).toBe(seen + 1);
+    } finally {
+      await client.callTool({ name: 'electron_stop', arguments: { processId, gracePeriodMs: 1000 } });
+    }
+  }, 20000);
+});
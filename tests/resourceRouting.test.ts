@@ -24,6 +24,24 @@ describe('Resource URI Routing', () => {
     });
   });
 
+  it('parses the JSON variant of logs URIs', () => {
+    expect(parseElectronResourceUri('electron://logs/electron-123?format=json')).toEqual({
+      kind: 'logs',
+      processId: 'electron-123',
+      format: 'json'
+    });
+    expect(parseElectronResourceUri('electron://logs/electron-123?format=xml')).toEqual({ kind: 'unknown' });
+  });
+
+  it('parses log archive URIs', () => {
+    expect(parseElectronResourceUri('electron://logs/electron-123/archive')).toEqual({
+      kind: 'logArchive',
+      processId: 'electron-123'
+    });
+    expect(parseElectronResourceUri('electron://logs/electron-123/other')).toEqual({ kind: 'unknown' });
+    expect(parseElectronResourceUri('electron://logs//archive')).toEqual({ kind: 'unknown' });
+  });
+
   it('parses CDP target metadata URIs', () => {
     expect(parseElectronResourceUri('electron://cdp/electron-123/target-1')).toEqual({
       kind: 'cdp',
@@ -41,6 +59,30 @@ describe('Resource URI Routing', () => {
     });
   });
 
+  it('parses CDP protocol URIs', () => {
+    expect(parseElectronResourceUri('electron://cdp/electron-123/target-1/protocol')).toEqual({
+      kind: 'cdpProtocol',
+      processId: 'electron-123',
+      targetId: 'target-1'
+    });
+    expect(parseElectronResourceUri('electron://cdp/electron-123/target-1/protocol/Page')).toEqual({
+      kind: 'cdpProtocol',
+      processId: 'electron-123',
+      targetId: 'target-1',
+      domain: 'Page'
+    });
+  });
+
+  it('parses event URIs with process and target IDs', () => {
+    expect(parseElectronResourceUri('electron://events/electron-123/page-1')).toEqual({
+      kind: 'events',
+      processId: 'electron-123',
+      targetId: 'page-1'
+    });
+    expect(parseElectronResourceUri('electron://events/electron-123')).toEqual({ kind: 'unknown' });
+    expect(parseElectronResourceUri('electron://events/electron-123/page-1/more')).toEqual({ kind: 'unknown' });
+  });
+
   it('flags malformed CDP URIs', () => {
     expect(parseElectronResourceUri('electron://cdp/electron-123')).toEqual({
       kind: 'invalidCdp'
@@ -50,6 +92,22 @@ describe('Resource URI Routing', () => {
     });
   });
 
+  it('parses history URIs with process IDs', () => {
+    expect(parseElectronResourceUri('electron://history/electron-123')).toEqual({
+      kind: 'history',
+      processId: 'electron-123'
+    });
+    expect(parseElectronResourceUri('electron://history/')).toEqual({ kind: 'unknown' });
+  });
+
+  it('parses metrics URIs with process IDs', () => {
+    expect(parseElectronResourceUri('electron://metrics/electron-123')).toEqual({
+      kind: 'metrics',
+      processId: 'electron-123'
+    });
+    expect(parseElectronResourceUri('electron://metrics/')).toEqual({ kind: 'unknown' });
+  });
+
   it('returns unknown for non-Electron URIs', () => {
     expect(parseElectronResourceUri('electron://unknown')).toEqual({ kind: 'unknown' });
     expect(parseElectronResourceUri('https://example.com')).toEqual({ kind: 'unknown' });
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { connectClient, parseToolText } from './helpers/mcpClient.js';
+import {
+  CrashRecord,
+  DEFAULT_SUPERVISOR_OPTIONS,
+  MAX_CRASH_RECORDS,
+  MAX_RESTART_DELAY_MS,
+  shouldRestart,
+  restartDelay,
+  recordCrash,
+  tailLogLines
+} from '../src/supervisor.js';
+import { createLogEntry } from '../src/logEntries.js';
+
+const fakeElectron = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'fake-electron.mjs');
+
+function crash(exitCode: number): CrashRecord {
+  return { time: new Date(), exitCode, signal: null, uptimeMs: 10, restartCount: 0, lastLogLines: [] };
+}
+
+describe('shouldRestart', () => {
+  it('never restarts under the default policy', () => {
+    expect(shouldRestart(DEFAULT_SUPERVISOR_OPTIONS, true, 0, false)).toBe(false);
+  });
+
+  it('restarts only crashes under on-crash', () => {
+    const options = { ...DEFAULT_SUPERVISOR_OPTIONS, policy: 'on-crash' as const };
+    expect(shouldRestart(options, true, 0, false)).toBe(true);
+    expect(shouldRestart(options, false, 0, false)).toBe(false);
+  });
+
+  it('restarts clean exits under always, but not requested stops', () => {
+    const options = { ...DEFAULT_SUPERVISOR_OPTIONS, policy: 'always' as const };
+    expect(shouldRestart(options, false, 0, false)).toBe(true);
+    expect(shouldRestart(options, false, 0, true)).toBe(false);
+  });
+
+  it('gives up after maxRestarts', () => {
+    const options = { policy: 'always' as const, maxRestarts: 2, backoffMs: 10 };
+    expect(shouldRestart(options, true, 1, false)).toBe(true);
+    expect(shouldRestart(options, true, 2, false)).toBe(false);
+  });
+});
+
+describe('restartDelay', () => {
+  it('doubles the backoff for each restart up to the cap', () => {
+    const options = { ...DEFAULT_SUPERVISOR_OPTIONS, backoffMs: 500 };
+    expect(restartDelay(options, 0)).toBe(500);
+    expect(restartDelay(options, 2)).toBe(2000);
+    expect(restartDelay(options, 20)).toBe(MAX_RESTART_DELAY_MS);
+  });
+});
+
+describe('recordCrash', () => {
+  it('keeps only the most recent crashes', () => {
+    const history: CrashRecord[] = [];
+    for (let i = 0; i < MAX_CRASH_RECORDS + 3; i++) {
+      recordCrash(history, crash(i));
+    }
+    expect(history).toHaveLength(MAX_CRASH_RECORDS);
+    expect(history[0].exitCode).toBe(3);
+  });
+});
+
+describe('tailLogLines', () => {
+  it('keeps the messages of the last entries', () => {
+    const logs = ['one', 'two', 'three', 'four', 'five'].map(line => createLogEntry('stdout', line));
+    expect(tailLogLines(logs, 3)).toEqual(['three', 'four', 'five']);
+    expect(tailLogLines(logs, 10)).toEqual(['one', 'two', 'three', 'four', 'five']);
+    expect(tailLogLines(logs, 0)).toEqual([]);
+  });
+});
+
+describe('crash supervision', () => {
+  it.skipIf(process.platform === 'win32')('restarts a crashing app under the same ID until maxRestarts', async () => {
+    const client = await connectClient('supervisor-test');
+
+    const start = await client.callTool({
+      name: 'electron_start',
+      arguments: {
+        executablePath: fakeElectron,
+        env: { FAKE_ELECTRON_EXIT_AFTER_MS: '1000', FAKE_ELECTRON_EXIT_CODE: '3' },
+        startupTimeout: 5000,
+        restartPolicy: 'on-crash',
+        maxRestarts: 2,
+        restartBackoffMs: 10
+      }
+    });
+    const { processId } = parseToolText(start);
+
+    // One process as electron_list reports it
+    let entry: { id: string; status: string; restartPolicy?: string; restartCount: number; crashes: number; lastCrash?: CrashRecord } | undefined;
+    for (let i = 0; i < 300; i++) {
+      const list = await client.callTool({ name: 'electron_list', arguments: {} });
+      entry = parseToolText(list).processes[0];
+      if (entry?.status === 'crashed' && entry.restartCount === 2) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    expect(entry).toMatchObject({ id: processId, status: 'crashed', restartPolicy: 'on-crash', restartCount: 2, crashes: 3 });
+    expect(entry?.lastCrash?.exitCode).toBe(3);
+    expect(entry?.lastCrash?.restartCount).toBe(2);
+    expect(entry?.lastCrash?.lastLogLines.join('\n')).toContain('DevTools listening on');
+
+    const stop = await client.callTool({ name: 'electron_stop', arguments: { processId } });
+    expect(parseToolText(stop).exit.method).toBe('already-exited');
+  }, 20000);
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffTargets,
+  recordTargetEvents,
+  isTargetCrashed,
+  MAX_TARGET_EVENTS,
+  TargetLifecycleEvent
+} from '../src/targetLifecycle.js';
+
+const pageA = { id: 'target-a', type: 'page', url: 'file:///a.html' };
+const pageB = { id: 'target-b', type: 'page', url: 'file:///b.html' };
+
+describe('Target lifecycle tracking', () => {
+  it('reports every target as created on the first listing', () => {
+    const time = new Date('2024-01-01T00:00:00Z');
+    expect(diffTargets(undefined, [pageA], time)).toEqual([
+      { type: 'created', targetId: 'target-a', targetType: 'page', url: 'file:///a.html', time }
+    ]);
+  });
+
+  it('reports created and destroyed targets between listings', () => {
+    const events = diffTargets([pageA], [pageB]);
+    expect(events.map(e => [e.type, e.targetId])).toEqual([
+      ['created', 'target-b'],
+      ['destroyed', 'target-a']
+    ]);
+  });
+
+  it('reports nothing when the listing is unchanged', () => {
+    expect(diffTargets([pageA, pageB], [pageB, pageA])).toEqual([]);
+  });
+
+  it('keeps the event log bounded', () => {
+    const log: TargetLifecycleEvent[] = [];
+    for (let i = 0; i < MAX_TARGET_EVENTS + 10; i++) {
+      recordTargetEvents(log, [{ type: 'created', targetId: `target-${i}`, time: new Date() }]);
+    }
+
+    expect(log).toHaveLength(MAX_TARGET_EVENTS);
+    expect(log[0].targetId).toBe('target-10');
+  });
+
+  it('treats a target as crashed until it recovers', () => {
+    const log: TargetLifecycleEvent[] = [];
+    recordTargetEvents(log, diffTargets(undefined, [pageA, pageB]));
+    expect(isTargetCrashed(log, 'target-a')).toBe(false);
+
+    recordTargetEvents(log, [{ type: 'crashed', targetId: 'target-a', time: new Date() }]);
+    expect(isTargetCrashed(log, 'target-a')).toBe(true);
+    expect(isTargetCrashed(log, 'target-b')).toBe(false);
+
+    recordTargetEvents(log, [{ type: 'recovered', targetId: 'target-a', time: new Date() }]);
+    expect(isTargetCrashed(log, 'target-a')).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseElectronVersions, isEndpointGone } from '../src/versionInfo.js';
+
+describe('parseElectronVersions', () => {
+  it('reads Electron and Chromium versions from /json/version', () => {
+    expect(parseElectronVersions({
+      Browser: 'Chrome/122.0.6261.70',
+      'Protocol-Version': '1.3',
+      'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) my-app/2.4.0 Chrome/122.0.6261.70 Electron/29.1.0 Safari/537.36',
+      'V8-Version': '12.2.281.19-electron.0'
+    })).toEqual({
+      electron: '29.1.0',
+      chrome: '122.0.6261.70',
+      v8: '12.2.281.19-electron.0',
+      protocol: '1.3'
+    });
+  });
+
+  it('keeps pre-release Electron versions intact', () => {
+    const versions = parseElectronVersions({
+      'User-Agent': 'Mozilla/5.0 Chrome/124.0.6367.8 Electron/30.0.0-beta.5 Safari/537.36'
+    });
+
+    expect(versions.electron).toBe('30.0.0-beta.5');
+    expect(versions.chrome).toBe('124.0.6367.8');
+  });
+
+  it('leaves the Electron version empty for plain Chromium', () => {
+    const versions = parseElectronVersions({
+      Browser: 'HeadlessChrome/120.0.6099.0',
+      'User-Agent': 'Mozilla/5.0 HeadlessChrome/120.0.6099.0 Safari/537.36'
+    });
+
+    expect(versions.electron).toBeUndefined();
+    expect(versions.chrome).toBe('120.0.6099.0');
+  });
+});
+
+describe('isEndpointGone', () => {
+  it('recognises refused and reset connections, also as the cause of a fetch failure', () => {
+    expect(isEndpointGone(new TypeError('fetch failed', { cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }) }))).toBe(true);
+    expect(isEndpointGone(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }))).toBe(true);
+  });
+
+  it('leaves other failures alone', () => {
+    expect(isEndpointGone(new Error('Failed to get targets: Internal Server Error'))).toBe(false);
+    expect(isEndpointGone(new TypeError('fetch failed', { cause: { code: 'ETIMEDOUT' } }))).toBe(false);
+    expect(isEndpointGone(undefined)).toBe(false);
+  });
+});